@@ -7,3 +7,5 @@ export * from "./jwt.ts";
 export * from "./jwks.ts";
 export * from "./permissions.ts";
 export * from "./middleware.ts";
+export * from "./rate_limit.ts";
+export * from "./quotas.ts";
@@ -0,0 +1,34 @@
+/**
+ * Tests for auth middleware helpers.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { getResourceOwner } from "./middleware.ts";
+
+function withAuthRequired(value: string | undefined, fn: () => void) {
+  const prev = Deno.env.get("AUTH_REQUIRED");
+  try {
+    if (value === undefined) Deno.env.delete("AUTH_REQUIRED");
+    else Deno.env.set("AUTH_REQUIRED", value);
+    fn();
+  } finally {
+    if (prev === undefined) Deno.env.delete("AUTH_REQUIRED");
+    else Deno.env.set("AUTH_REQUIRED", prev);
+  }
+}
+
+Deno.test("getResourceOwner - JWT users own their resources, callers without a user own nothing", () => {
+  withAuthRequired(undefined, () => {
+    assertEquals(getResourceOwner({ authenticated: true, userId: "auth0|1", permissions: [], method: "jwt" }), "auth0|1");
+    assertEquals(getResourceOwner({ authenticated: true, permissions: [], method: "jwt" }), null);
+    assertEquals(getResourceOwner({ authenticated: true, permissions: ["write:prompts"], method: "legacy" }), null);
+    assertEquals(getResourceOwner({ authenticated: false, permissions: [], method: "none" }), null);
+  });
+});
+
+Deno.test("getResourceOwner - unauthenticated requests share the anonymous owner in dev mode", () => {
+  withAuthRequired("0", () => {
+    assertEquals(getResourceOwner({ authenticated: false, permissions: [], method: "none" }), "anonymous");
+    assertEquals(getResourceOwner({ authenticated: true, permissions: ["write:prompts"], method: "legacy" }), null);
+  });
+});
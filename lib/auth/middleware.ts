@@ -149,6 +149,16 @@ export async function authMiddleware(
   };
 }
 
+/**
+ * Owner of the images, sessions and jobs a request creates or reads: the JWT user,
+ * or `anonymous` when auth is disabled (dev mode).
+ * Null for callers without a user (legacy token, JWT without `sub`) - they would all share one owner.
+ */
+export function getResourceOwner(context: AuthContext): string | null {
+  if (context.userId) return context.userId;
+  return context.method === "none" && !isAuthRequired() ? "anonymous" : null;
+}
+
 /**
  * Re-export for convenience.
  */
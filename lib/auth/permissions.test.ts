@@ -32,6 +32,8 @@ Deno.test("normalizeRoutePath - static paths", () => {
   assertEquals(normalizeRoutePath("/v1/prompts/default"), "/v1/prompts/default");
   assertEquals(normalizeRoutePath("/v1/vision/analyze"), "/v1/vision/analyze");
   assertEquals(normalizeRoutePath("/v1/vision/stream"), "/v1/vision/stream");
+  assertEquals(normalizeRoutePath("/v1/vision/batch"), "/v1/vision/batch");
+  assertEquals(getRouteConfig("GET", "/admin/usage")?.permissions, [PERMISSIONS.READ_USAGE]);
   assertEquals(normalizeRoutePath("/v1/images/upload"), "/v1/images/upload");
 });
 
@@ -46,15 +48,40 @@ Deno.test("normalizeRoutePath - long alphanumeric IDs", () => {
   assertEquals(normalizeRoutePath(`/v1/prompts/${longId}`), "/v1/prompts/:id");
 });
 
+Deno.test("normalizeRoutePath - session ULIDs", () => {
+  const ulid = "01HZX3Q5M8K2N7P4R6T9V0W1YA";
+  assertEquals(normalizeRoutePath(`/v1/sessions/${ulid}`), "/v1/sessions/:id");
+  assertEquals(normalizeRoutePath(`/v1/sessions/${ulid}/messages`), "/v1/sessions/:id/messages");
+  assertEquals(getRouteConfig("POST", `/v1/sessions/${ulid}/messages`)?.permissions, [PERMISSIONS.READ_VISION]);
+});
+
+Deno.test("normalizeRoutePath - vision job ids", () => {
+  const ulid = "01HZX3Q5M8K2N7P4R6T9V0W1YA";
+  assertEquals(normalizeRoutePath("/v1/vision/jobs"), "/v1/vision/jobs");
+  assertEquals(normalizeRoutePath(`/v1/vision/jobs/${ulid}`), "/v1/vision/jobs/:id");
+  assertEquals(getRouteConfig("GET", `/v1/vision/jobs/${ulid}`)?.permissions, [PERMISSIONS.READ_VISION]);
+});
+
+Deno.test("normalizeRoutePath - image keys with slashes", () => {
+  const key = "tmp/2026/10/18/550e8400-e29b-41d4-a716-446655440000.jpg";
+  assertEquals(normalizeRoutePath(`/v1/images/${key}`), "/v1/images/:key");
+  assertEquals(normalizeRoutePath(`/v1/images/${encodeURIComponent(key)}`), "/v1/images/:key");
+  assertEquals(normalizeRoutePath("/v1/images"), "/v1/images");
+  assertEquals(getRouteConfig("GET", `/v1/images/${key}`)?.permissions, [PERMISSIONS.READ_IMAGES, PERMISSIONS.WRITE_IMAGES]);
+  assertEquals(getRouteConfig("DELETE", `/v1/images/${key}`)?.permissions, [PERMISSIONS.DELETE_IMAGES]);
+  assertEquals(normalizeRoutePath(`/v1/images/${key}/complete`), "/v1/images/:key/complete");
+  assertEquals(normalizeRoutePath("/v1/images/presign-upload"), "/v1/images/presign-upload");
+  assertEquals(getRouteConfig("POST", `/v1/images/${encodeURIComponent(key)}/complete`)?.permissions, [PERMISSIONS.WRITE_IMAGES]);
+  assertEquals(getRouteConfig("PUT", `/local-objects/${key}`)?.public, true);
+  assertEquals(getRouteConfig("DELETE", `/local-objects/${key}`), undefined);
+});
+
 Deno.test("getRouteConfig - public routes", () => {
   const healthz = getRouteConfig("GET", "/healthz");
   assertEquals(healthz?.public, true);
 
   const readyz = getRouteConfig("GET", "/readyz");
   assertEquals(readyz?.public, true);
-
-  const stream = getRouteConfig("POST", "/v1/vision/stream");
-  assertEquals(stream?.public, true);
 });
 
 Deno.test("getRouteConfig - protected routes", () => {
@@ -62,6 +89,10 @@ Deno.test("getRouteConfig - protected routes", () => {
   assertEquals(analyze?.permissions, [PERMISSIONS.READ_VISION]);
   assertEquals(analyze?.legacyAllowed, undefined);
 
+  // Streams are metered against the caller's quota like analyze
+  const stream = getRouteConfig("POST", "/v1/vision/stream");
+  assertEquals({ public: stream?.public, permissions: stream?.permissions }, { public: undefined, permissions: [PERMISSIONS.READ_VISION] });
+
   const upload = getRouteConfig("POST", "/v1/images/upload");
   assertEquals(upload?.permissions, [PERMISSIONS.WRITE_IMAGES]);
 
@@ -2,7 +2,7 @@
  * Permissions checking and route configuration.
  */
 
-import type { JwtClaims, RouteAuthConfig } from "./types.ts";
+import type { JwtClaims, RateLimitRule, RouteAuthConfig } from "./types.ts";
 
 /**
  * Permission constants.
@@ -11,9 +11,18 @@ export const PERMISSIONS = {
   READ_VISION: "read:vision",
   READ_PROMPTS: "read:prompts",
   WRITE_PROMPTS: "write:prompts",
+  READ_IMAGES: "read:images",
   WRITE_IMAGES: "write:images",
+  DELETE_IMAGES: "delete:images",
+  ADMIN_IMAGES: "admin:images",
+  READ_USAGE: "read:usage",
 } as const;
 
+// Default limits for routes that call upstream providers or write to storage
+const VISION_RATE_LIMIT: RateLimitRule = { limit: 60, windowSec: 60 };
+const BATCH_RATE_LIMIT: RateLimitRule = { limit: 10, windowSec: 60 };
+const UPLOAD_RATE_LIMIT: RateLimitRule = { limit: 30, windowSec: 60 };
+
 /**
  * Route permissions matrix.
  * Key format: "METHOD /path" or "METHOD /path/:param"
@@ -24,11 +33,31 @@ export const ROUTE_PERMISSIONS: Record<string, RouteAuthConfig> = {
   "GET /readyz": { public: true },
 
   // Vision API
-  "POST /v1/vision/analyze": { permissions: [PERMISSIONS.READ_VISION] },
-  "POST /v1/vision/stream": { public: true }, // Temporarily open (SSE deferred)
+  "POST /v1/vision/analyze": { permissions: [PERMISSIONS.READ_VISION], rateLimit: VISION_RATE_LIMIT },
+  "POST /v1/vision/stream": { permissions: [PERMISSIONS.READ_VISION], rateLimit: VISION_RATE_LIMIT },
+  "POST /v1/vision/batch": { permissions: [PERMISSIONS.READ_VISION], rateLimit: BATCH_RATE_LIMIT },
+  "POST /v1/vision/jobs": { permissions: [PERMISSIONS.READ_VISION], rateLimit: VISION_RATE_LIMIT },
+  "GET /v1/vision/jobs/:id": { permissions: [PERMISSIONS.READ_VISION] },
+
+  // Sessions API
+  "POST /v1/sessions": { permissions: [PERMISSIONS.READ_VISION] },
+  "GET /v1/sessions/:id": { permissions: [PERMISSIONS.READ_VISION] },
+  "POST /v1/sessions/:id/messages": { permissions: [PERMISSIONS.READ_VISION], rateLimit: VISION_RATE_LIMIT },
+
+  // Usage API
+  "GET /v1/usage": { permissions: [PERMISSIONS.READ_VISION] },
 
   // Images API
-  "POST /v1/images/upload": { permissions: [PERMISSIONS.WRITE_IMAGES] },
+  "POST /v1/images/upload": { permissions: [PERMISSIONS.WRITE_IMAGES], rateLimit: UPLOAD_RATE_LIMIT },
+  "POST /v1/images/presign-upload": { permissions: [PERMISSIONS.WRITE_IMAGES], rateLimit: UPLOAD_RATE_LIMIT },
+  "POST /v1/images/:key/complete": { permissions: [PERMISSIONS.WRITE_IMAGES] },
+  "GET /v1/images": { permissions: [PERMISSIONS.READ_IMAGES, PERMISSIONS.WRITE_IMAGES] },
+  "GET /v1/images/:key": { permissions: [PERMISSIONS.READ_IMAGES, PERMISSIONS.WRITE_IMAGES] },
+  "DELETE /v1/images/:key": { permissions: [PERMISSIONS.DELETE_IMAGES] },
+
+  // Presigned URLs of the local object stores - the URL signature is checked by the handler
+  "GET /local-objects/:key": { public: true },
+  "PUT /local-objects/:key": { public: true },
 
   // Prompts API - read
   "GET /v1/prompts": { permissions: [PERMISSIONS.READ_PROMPTS] },
@@ -58,6 +87,14 @@ export const ROUTE_PERMISSIONS: Record<string, RouteAuthConfig> = {
     permissions: [PERMISSIONS.WRITE_PROMPTS],
     legacyAllowed: true,
   },
+  "POST /admin/images/cleanup": {
+    permissions: [PERMISSIONS.ADMIN_IMAGES],
+    legacyAllowed: true,
+  },
+  "GET /admin/usage": {
+    permissions: [PERMISSIONS.READ_USAGE],
+    legacyAllowed: true,
+  },
 };
 
 /**
@@ -65,6 +102,13 @@ export const ROUTE_PERMISSIONS: Record<string, RouteAuthConfig> = {
  * Replaces dynamic segments with :param placeholder.
  */
 export function normalizeRoutePath(pathname: string): string {
+  // Image keys contain slashes (tmp/YYYY/MM/DD/<uuid>.jpg), so the whole rest is one key
+  const imageKey = pathname.match(/^\/v1\/images\/(.+?)(\/complete)?$/);
+  if (imageKey && imageKey[1] !== "upload" && imageKey[1] !== "presign-upload") {
+    return `/v1/images/:key${imageKey[2] ?? ""}`;
+  }
+  if (/^\/local-objects\/.+/.test(pathname)) return "/local-objects/:key";
+
   // Replace UUID-like segments with :id
   // UUID format: 8-4-4-4-12 hex chars
   const uuidPattern = /\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
@@ -72,7 +116,7 @@ export function normalizeRoutePath(pathname: string): string {
 
   // Replace any remaining numeric or alphanumeric ID segments
   // But preserve known static paths like "default", "sync"
-  const staticPaths = new Set(["default", "sync", "analyze", "stream", "upload", "prompts", "vision", "images", "admin", "v1", "healthz", "readyz"]);
+  const staticPaths = new Set(["default", "sync", "cleanup", "analyze", "stream", "batch", "upload", "presign-upload", "complete", "prompts", "sessions", "messages", "jobs", "usage", "vision", "images", "admin", "v1", "healthz", "readyz"]);
 
   const parts = normalized.split("/");
   normalized = parts
@@ -0,0 +1,54 @@
+/**
+ * Tests for usage quota resolution.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { getUsageQuota, getUsageScope, parseUsageQuotas } from "./quotas.ts";
+import type { AuthContext } from "./types.ts";
+
+const user = (userId: string, permissions: string[] = []): AuthContext => ({
+  authenticated: true,
+  userId,
+  permissions,
+  method: "jwt",
+});
+
+function withQuotas(value: unknown, fn: () => void) {
+  Deno.env.set("USAGE_QUOTAS", JSON.stringify(value));
+  try {
+    fn();
+  } finally {
+    Deno.env.delete("USAGE_QUOTAS");
+  }
+}
+
+Deno.test("parseUsageQuotas - ignores invalid JSON and entries", () => {
+  assertEquals(parseUsageQuotas(undefined), {});
+  assertEquals(parseUsageQuotas("{nope"), {});
+  assertEquals(parseUsageQuotas('{"default": -1, "users": {"a": 10, "b": "x", "c": null}, "permissions": []}'), {
+    default: undefined,
+    users: { a: 10, c: null },
+    permissions: {},
+  });
+});
+
+Deno.test("getUsageQuota - user entry, then largest permission group, then default", () => {
+  withQuotas({
+    default: 1000,
+    users: { "auth0|vip": null, "auth0|small": 10 },
+    permissions: { "team:a": 5000, "team:b": 8000 },
+  }, () => {
+    assertEquals(getUsageQuota(user("auth0|vip", ["team:a"])), null);
+    assertEquals(getUsageQuota(user("auth0|small", ["team:b"])), 10);
+    assertEquals(getUsageQuota(user("auth0|x", ["team:a", "team:b", "read:vision"])), 8000);
+    assertEquals(getUsageQuota(user("auth0|y", ["read:vision"])), 1000);
+    assertEquals(getUsageQuota({ authenticated: false, permissions: [], method: "none" }), null);
+  });
+  assertEquals(getUsageQuota(user("auth0|y")), null);
+});
+
+Deno.test("getUsageScope - subject for JWT, legacy and anonymous requests", () => {
+  assertEquals(getUsageScope(user("auth0|1")), { userId: "auth0|1", quota: null });
+  assertEquals(getUsageScope({ authenticated: true, permissions: [], method: "legacy" }).userId, "legacy");
+  assertEquals(getUsageScope({ authenticated: false, permissions: [], method: "none" }).userId, "anonymous");
+});
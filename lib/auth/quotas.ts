@@ -0,0 +1,76 @@
+/**
+ * Monthly token quotas and the subject usage is metered against.
+ *
+ * Config (env):
+ * - USAGE_QUOTAS: JSON, e.g. `{"default": 1000000, "users": {"auth0|abc": 5000000},
+ *   "permissions": {"team:research": 20000000}}`. A user entry wins (null = unlimited),
+ *   otherwise the largest quota of the user's permissions, otherwise `default`.
+ *   Quotas apply to JWT users only; without a matching entry usage is unlimited.
+ */
+
+import type { AuthContext } from "./types.ts";
+
+export interface UsageQuotaConfig {
+  default?: number | null;
+  users?: Record<string, number | null>;
+  permissions?: Record<string, number | null>;
+}
+
+/**
+ * Who usage is recorded for and the monthly token quota to enforce (null = none).
+ */
+export interface UsageScope {
+  userId: string;
+  quota: number | null;
+}
+
+function isQuota(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && Number.isFinite(value) && value >= 0);
+}
+
+function pickQuotas(value: unknown): Record<string, number | null> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter(([, quota]) => isQuota(quota))) as Record<string, number | null>;
+}
+
+/**
+ * Parse USAGE_QUOTAS; invalid JSON or entries are ignored.
+ */
+export function parseUsageQuotas(raw: string | undefined): UsageQuotaConfig {
+  if (!raw?.trim()) return {};
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== "object") return {};
+  return {
+    default: isQuota(parsed.default) ? parsed.default : undefined,
+    users: pickQuotas(parsed.users),
+    permissions: pickQuotas(parsed.permissions),
+  };
+}
+
+/**
+ * Monthly token quota for a request context, or null when unlimited.
+ */
+export function getUsageQuota(context: AuthContext): number | null {
+  if (!context.userId) return null;
+  const config = parseUsageQuotas(Deno.env.get("USAGE_QUOTAS"));
+  if (config.users && context.userId in config.users) return config.users[context.userId];
+
+  const groups = context.permissions
+    .filter((permission) => config.permissions && permission in config.permissions)
+    .map((permission) => config.permissions![permission]);
+  if (groups.length > 0) return groups.includes(null) ? null : Math.max(...(groups as number[]));
+  return config.default ?? null;
+}
+
+/**
+ * Usage subject: the JWT user, `legacy` for the admin token, otherwise `anonymous`.
+ */
+export function getUsageScope(context: AuthContext): UsageScope {
+  const userId = context.userId ?? (context.method === "legacy" ? "legacy" : "anonymous");
+  return { userId, quota: getUsageQuota(context) };
+}
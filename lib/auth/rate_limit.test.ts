@@ -0,0 +1,73 @@
+/**
+ * Tests for rate limit rules and subjects.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { getRateLimitRule, getRateLimitSubject, parseRateLimitOverrides } from "./rate_limit.ts";
+import type { AuthContext } from "./types.ts";
+
+function withEnv(vars: Record<string, string | undefined>, fn: () => void | Promise<void>) {
+  return async () => {
+    const prev = Object.fromEntries(Object.keys(vars).map((name) => [name, Deno.env.get(name)]));
+    const apply = (values: Record<string, string | undefined>) => {
+      for (const [name, value] of Object.entries(values)) {
+        if (value === undefined) Deno.env.delete(name);
+        else Deno.env.set(name, value);
+      }
+    };
+    apply(vars);
+    try {
+      await fn();
+    } finally {
+      apply(prev);
+    }
+  };
+}
+
+Deno.test("parseRateLimitOverrides - limits, off and invalid entries", () => {
+  const overrides = parseRateLimitOverrides(
+    "POST /v1/vision/analyze=120/60; post /v1/vision/batch=off;GET /x=abc;broken",
+  );
+  assertEquals([...overrides.entries()], [
+    ["POST /v1/vision/analyze", { limit: 120, windowSec: 60 }],
+    ["POST /v1/vision/batch", null],
+  ]);
+});
+
+Deno.test(
+  "getRateLimitRule - matrix defaults, overrides and global switch",
+  withEnv({ RATE_LIMIT: undefined, RATE_LIMITS: undefined }, () => {
+    const session = "/v1/sessions/01HZX3Q5M8K2N7P4R6T9V0W1YA/messages";
+    assertEquals(getRateLimitRule("POST", session), {
+      route: "POST /v1/sessions/:id/messages",
+      rule: { limit: 60, windowSec: 60 },
+    });
+    assertEquals(getRateLimitRule("GET", "/v1/prompts"), null);
+
+    Deno.env.set("RATE_LIMITS", "POST /v1/vision/analyze=5/10;POST /v1/vision/batch=off;GET /v1/prompts=100/60");
+    assertEquals(getRateLimitRule("POST", "/v1/vision/analyze")?.rule, { limit: 5, windowSec: 10 });
+    assertEquals(getRateLimitRule("POST", "/v1/vision/batch"), null);
+    assertEquals(getRateLimitRule("GET", "/v1/prompts")?.rule, { limit: 100, windowSec: 60 });
+
+    Deno.env.set("RATE_LIMIT", "0");
+    assertEquals(getRateLimitRule("POST", "/v1/vision/analyze"), null);
+  }),
+);
+
+Deno.test(
+  "getRateLimitSubject - user, legacy token and client IP",
+  withEnv({ TRUST_PROXY: undefined }, async () => {
+    const none: AuthContext = { authenticated: false, permissions: [], method: "none" };
+    const req = new Request("http://localhost/v1/vision/analyze", {
+      headers: { "X-Admin-Token": "secret", "X-Forwarded-For": "203.0.113.7, 10.0.0.1" },
+    });
+
+    assertEquals(await getRateLimitSubject(req, { ...none, authenticated: true, userId: "auth0|1", method: "jwt" }), "user:auth0|1");
+    const legacy = await getRateLimitSubject(req, { ...none, authenticated: true, method: "legacy" });
+    assertEquals(/^key:[0-9a-f]{16}$/.test(legacy), true);
+    assertEquals(await getRateLimitSubject(req, none, "198.51.100.2"), "ip:198.51.100.2");
+
+    Deno.env.set("TRUST_PROXY", "1");
+    assertEquals(await getRateLimitSubject(req, none, "198.51.100.2"), "ip:203.0.113.7");
+  }),
+);
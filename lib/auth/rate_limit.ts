@@ -0,0 +1,78 @@
+/**
+ * Rate limit rules and subjects. Rules come from `rateLimit` in the ROUTE_PERMISSIONS matrix
+ * and can be overridden per route; counters live in KV (see storage/rate_limits.ts).
+ *
+ * Config (env):
+ * - RATE_LIMIT: set to 0 to disable rate limiting
+ * - RATE_LIMITS: per-route overrides separated by `;`, e.g.
+ *   `POST /v1/vision/analyze=120/60;POST /v1/vision/batch=off` (limit/window seconds or `off`)
+ * - TRUST_PROXY: set to 1 to take the client IP from X-Forwarded-For (only behind a trusted proxy)
+ */
+
+import { sha256Hex } from "../utils/hash.ts";
+import { getRouteConfig, normalizeRoutePath } from "./permissions.ts";
+import type { AuthContext, RateLimitRule } from "./types.ts";
+
+export interface ResolvedRateLimit {
+  /** Route key ("METHOD /normalized/path"), counters are kept per route */
+  route: string;
+  rule: RateLimitRule;
+}
+
+/**
+ * Parse RATE_LIMITS overrides; `null` disables the limit of a route. Invalid entries are ignored.
+ */
+export function parseRateLimitOverrides(raw: string | undefined): Map<string, RateLimitRule | null> {
+  const overrides = new Map<string, RateLimitRule | null>();
+  for (const entry of (raw ?? "").split(";")) {
+    const eq = entry.lastIndexOf("=");
+    if (eq === -1) continue;
+    const [method, path] = entry.slice(0, eq).trim().split(/\s+/);
+    const value = entry.slice(eq + 1).trim().toLowerCase();
+    if (!method || !path) continue;
+    const route = `${method.toUpperCase()} ${path}`;
+    if (value === "off" || value === "0") {
+      overrides.set(route, null);
+      continue;
+    }
+    const match = value.match(/^(\d+)\/(\d+)$/);
+    if (match && Number(match[1]) > 0 && Number(match[2]) > 0) {
+      overrides.set(route, { limit: Number(match[1]), windowSec: Number(match[2]) });
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Limit that applies to a request, or null when the route is not limited.
+ */
+export function getRateLimitRule(method: string, pathname: string): ResolvedRateLimit | null {
+  if (Deno.env.get("RATE_LIMIT") === "0") return null;
+  const route = `${method.toUpperCase()} ${normalizeRoutePath(pathname)}`;
+  const overrides = parseRateLimitOverrides(Deno.env.get("RATE_LIMITS"));
+  const rule = overrides.has(route) ? overrides.get(route) : getRouteConfig(method, pathname)?.rateLimit;
+  return rule ? { route, rule } : null;
+}
+
+/**
+ * Client IP: the connection address, or the first X-Forwarded-For entry with TRUST_PROXY=1.
+ */
+export function getClientIp(req: Request, remoteAddr?: string): string {
+  if (Deno.env.get("TRUST_PROXY") === "1") {
+    const forwarded = req.headers.get("X-Forwarded-For")?.split(",")[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  return remoteAddr ?? "unknown";
+}
+
+/**
+ * Who a request is counted against: the JWT user, the legacy admin token (hashed) or the client IP.
+ */
+export async function getRateLimitSubject(req: Request, context: AuthContext, remoteAddr?: string): Promise<string> {
+  if (context.userId) return `user:${context.userId}`;
+  if (context.method === "legacy") {
+    const token = req.headers.get("X-Admin-Token") ?? "";
+    return `key:${(await sha256Hex(token)).slice(0, 16)}`;
+  }
+  return `ip:${getClientIp(req, remoteAddr)}`;
+}
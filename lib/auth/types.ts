@@ -69,6 +69,16 @@ export type AuthResult =
   | { ok: true; context: AuthContext }
   | { ok: false; error: AuthError };
 
+/**
+ * Fixed-window request limit for a route.
+ */
+export interface RateLimitRule {
+  /** Requests allowed per subject and window */
+  limit: number;
+  /** Window length in seconds */
+  windowSec: number;
+}
+
 /**
  * Route auth configuration.
  */
@@ -79,4 +89,6 @@ export interface RouteAuthConfig {
   permissions?: string[];
   /** Allow legacy X-Admin-Token fallback */
   legacyAllowed?: boolean;
+  /** Per-subject request limit (user, legacy token or IP) */
+  rateLimit?: RateLimitRule;
 }
@@ -0,0 +1,63 @@
+/**
+ * Tests for batch request parsing.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { parseBatchRequest } from "./batch.ts";
+
+Deno.test("parseBatchRequest - merges shared fields with item overrides", () => {
+  const result = parseBatchRequest({
+    provider: "zai",
+    prompt: "Describe",
+    image_url: "https://example.com/shared.png",
+    temperature: 0.2,
+    concurrency: 2,
+    items: [
+      { id: 1, image_url: "https://example.com/a.png" },
+      { images: ["https://example.com/b.png"], prompt_id: "p1" },
+      { prompt_kv_namespace: "ocr", stream: true },
+    ],
+  });
+  if (!result.ok) throw new Error(result.error.message);
+
+  assertEquals(result.batch.concurrency, 2);
+  assertEquals(result.batch.stream, false);
+  const [a, b, c] = result.batch.items;
+  assertEquals(a, {
+    id: "1",
+    input: { provider: "zai", prompt: "Describe", temperature: 0.2, image_url: "https://example.com/a.png", stream: false },
+  });
+  assertEquals(b.input.prompt, undefined);
+  assertEquals(b.input.image_url, undefined);
+  assertEquals(b.input.prompt_id, "p1");
+  assertEquals(c.input, {
+    provider: "zai",
+    image_url: "https://example.com/shared.png",
+    temperature: 0.2,
+    prompt_kv_namespace: "ocr",
+    stream: false,
+  });
+});
+
+Deno.test("parseBatchRequest - validates items and caps concurrency", () => {
+  const codes = [
+    parseBatchRequest([]),
+    parseBatchRequest({ items: [] }),
+    parseBatchRequest({ items: ["x"] }),
+    parseBatchRequest({ items: [{ id: {} }] }),
+    parseBatchRequest({ items: [{}], concurrency: 0 }),
+  ].map((result) => result.ok ? null : result.error.code);
+  assertEquals(codes, ["INVALID_BATCH", "INVALID_BATCH", "INVALID_BATCH", "INVALID_BATCH", "INVALID_BATCH"]);
+
+  Deno.env.set("VISION_BATCH_MAX_ITEMS", "2");
+  Deno.env.set("VISION_BATCH_CONCURRENCY", "3");
+  try {
+    const tooMany = parseBatchRequest({ items: [{}, {}, {}] });
+    assertEquals(tooMany.ok ? null : tooMany.error.message, "items must contain at most 2 entries");
+    const capped = parseBatchRequest({ items: [{}], concurrency: 10, stream: true });
+    assertEquals(capped.ok && [capped.batch.concurrency, capped.batch.stream], [3, true]);
+  } finally {
+    Deno.env.delete("VISION_BATCH_MAX_ITEMS");
+    Deno.env.delete("VISION_BATCH_CONCURRENCY");
+  }
+});
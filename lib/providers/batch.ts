@@ -0,0 +1,110 @@
+/**
+ * Batch vision requests (`POST /v1/vision/batch`): shared request fields plus an `items` array.
+ * Each item is merged over the shared fields; an item that sets an image or a prompt selector
+ * replaces the shared images or prompt selector as a whole.
+ *
+ * Config (env):
+ * - VISION_BATCH_MAX_ITEMS: maximum items per batch (default 100)
+ * - VISION_BATCH_CONCURRENCY: items processed in parallel per batch (default 4);
+ *   the request `concurrency` can only lower it
+ */
+
+export interface BatchItem {
+  /** Client correlation id echoed in the result */
+  id?: string;
+  /** Vision request body for this item (same fields as `/v1/vision/analyze`) */
+  input: Record<string, unknown>;
+}
+
+export interface BatchRequest {
+  items: BatchItem[];
+  concurrency: number;
+  /** Stream NDJSON progress instead of one JSON response */
+  stream: boolean;
+}
+
+export type BatchParseResult =
+  | { ok: true; batch: BatchRequest }
+  | { ok: false; error: { code: string; message: string; status: number } };
+
+const DEFAULT_MAX_ITEMS = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+const IMAGE_KEYS = ["image_url", "image_base64", "images"];
+const PROMPT_KEYS = ["prompt", "prompt_id", "prompt_kv"];
+// Batch-level options that are not passed on to items
+const BATCH_KEYS = ["items", "concurrency", "stream", "callback_url"];
+
+function getPositiveEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+}
+
+export function getBatchMaxItems(): number {
+  return getPositiveEnv("VISION_BATCH_MAX_ITEMS", DEFAULT_MAX_ITEMS);
+}
+
+export function getBatchConcurrency(): number {
+  return getPositiveEnv("VISION_BATCH_CONCURRENCY", DEFAULT_CONCURRENCY);
+}
+
+function hasAny(obj: Record<string, unknown>, keys: string[], prefix?: string): boolean {
+  return Object.keys(obj).some((key) => keys.includes(key) || (prefix !== undefined && key.startsWith(prefix)));
+}
+
+function invalid(message: string): BatchParseResult {
+  return { ok: false, error: { code: "INVALID_BATCH", message, status: 400 } };
+}
+
+/**
+ * Validate a batch body and expand it into per-item vision inputs.
+ */
+export function parseBatchRequest(raw: unknown): BatchParseResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return invalid("Request body must be a JSON object");
+  }
+  const body = raw as Record<string, unknown>;
+  const maxItems = getBatchMaxItems();
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return invalid("items must be a non-empty array");
+  }
+  if (body.items.length > maxItems) {
+    return invalid(`items must contain at most ${maxItems} entries`);
+  }
+
+  const maxConcurrency = getBatchConcurrency();
+  let concurrency = maxConcurrency;
+  if (body.concurrency !== undefined) {
+    const value = Number(body.concurrency);
+    if (!Number.isInteger(value) || value < 1) {
+      return invalid("concurrency must be a positive integer");
+    }
+    concurrency = Math.min(value, maxConcurrency);
+  }
+
+  const shared = Object.fromEntries(Object.entries(body).filter(([key]) => !BATCH_KEYS.includes(key)));
+  const items: BatchItem[] = [];
+  for (const [index, entry] of body.items.entries()) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return invalid(`items[${index}] must be an object`);
+    }
+    const { id, ...fields } = entry as Record<string, unknown>;
+    if (id !== undefined && typeof id !== "string" && typeof id !== "number") {
+      return invalid(`items[${index}].id must be a string or number`);
+    }
+    const base = { ...shared };
+    if (hasAny(fields, IMAGE_KEYS)) IMAGE_KEYS.forEach((key) => delete base[key]);
+    if (hasAny(fields, PROMPT_KEYS, "prompt_kv_")) {
+      for (const key of Object.keys(base)) {
+        if (PROMPT_KEYS.includes(key) || key.startsWith("prompt_kv_")) delete base[key];
+      }
+    }
+    for (const key of BATCH_KEYS) delete fields[key];
+    items.push({
+      id: id === undefined ? undefined : String(id),
+      input: { ...base, ...fields, stream: false },
+    });
+  }
+
+  return { ok: true, batch: { items, concurrency, stream: body.stream === true } };
+}
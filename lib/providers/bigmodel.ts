@@ -2,6 +2,11 @@
  * BigModel API Provider (GLM-4.5V)
  */
 
+import { UpstreamError } from "../utils/errors.ts";
+import { DEFAULT_IMAGE_LIMITS } from "../utils/image.ts";
+import type { ProviderCallOptions, VisionProvider } from "./types.ts";
+import { adaptGlmPayload, GLM_PARAM_LIMITS } from "./zai.ts";
+
 export interface BigModelPayload {
   model: string;
   messages: Array<{
@@ -14,7 +19,8 @@ export interface BigModelPayload {
 
 export async function callBigModel(
   payload: BigModelPayload,
-  stream = false
+  stream = false,
+  opts: ProviderCallOptions = {},
 ): Promise<Response> {
   const apiKey = Deno.env.get("BIGMODEL_API_KEY");
   if (!apiKey) {
@@ -35,12 +41,23 @@ export async function callBigModel(
       "Authorization": `Bearer ${apiKey}`,
     },
     body: JSON.stringify(body),
+    signal: opts.signal,
   });
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`BigModel API error (${response.status}): ${errorText}`);
+    throw new UpstreamError(`BigModel API error (${response.status}): ${errorText}`, response.status);
   }
 
   return response;
 }
+
+export const bigModelProvider: VisionProvider = {
+  name: "bigmodel",
+  defaultModel: "glm-4.5v",
+  capabilities: { thinking: true, detail: false, multiImage: true, imageFirst: false, jsonObject: true, jsonSchema: false, seed: false },
+  imageLimits: DEFAULT_IMAGE_LIMITS,
+  paramLimits: GLM_PARAM_LIMITS,
+  adaptPayload: adaptGlmPayload,
+  call: callBigModel,
+};
@@ -0,0 +1,96 @@
+/**
+ * Tests for provider failover chain.
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { callWithFailover, formatAttempts, FailoverError } from "./failover.ts";
+import { getProvider, registerProvider } from "./registry.ts";
+
+const ENV = {
+  ZAI_API_KEY: "zai-key",
+  BIGMODEL_API_KEY: "bigmodel-key",
+  OPENROUTER_API_KEY: "openrouter-key",
+  PROVIDER_FALLBACK_CHAIN: "zai,bigmodel,openrouter",
+  PROVIDER_FALLBACK_MODELS: JSON.stringify({ openrouter: "qwen/test-model" }),
+  DEFAULT_MODEL: undefined,
+};
+
+async function withMockedUpstream(
+  statuses: Record<string, number>,
+  fn: (calls: Array<{ host: string; model: string }>) => Promise<void>,
+) {
+  const prevEnv = new Map<string, string | undefined>();
+  for (const [name, value] of Object.entries(ENV)) {
+    prevEnv.set(name, Deno.env.get(name));
+    if (value === undefined) Deno.env.delete(name);
+    else Deno.env.set(name, value);
+  }
+
+  const calls: Array<{ host: string; model: string }> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    const host = new URL(String(input)).host;
+    const body = JSON.parse(String(init?.body));
+    calls.push({ host, model: body.model });
+    const status = statuses[host] ?? 200;
+    return Promise.resolve(new Response(JSON.stringify({ host }), { status }));
+  }) as typeof fetch;
+
+  try {
+    await fn(calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+    for (const [name, value] of prevEnv) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+}
+
+Deno.test("callWithFailover - falls through 429/5xx to the next provider", async () => {
+  await withMockedUpstream({ "api.z.ai": 503, "open.bigmodel.cn": 429 }, async (calls) => {
+    const result = await callWithFailover({ prompt: "hi", image_url: "https://example.com/a.jpg" }, false);
+    assertEquals(result.provider, "openrouter");
+    assertEquals(result.model, "qwen/test-model");
+    assertEquals(calls.map((c) => c.model), ["glm-4.6v-flash", "glm-4.5v", "qwen/test-model"]);
+    assertEquals(formatAttempts(result.attempts), "zai:503, bigmodel:429, openrouter:ok");
+  });
+});
+
+Deno.test("callWithFailover - a provider that cannot build the payload is recorded and skipped", async () => {
+  const bigmodel = getProvider("bigmodel")!;
+  registerProvider({
+    ...bigmodel,
+    adaptPayload: () => {
+      throw new Error("unsupported request");
+    },
+  });
+  try {
+    await withMockedUpstream({ "api.z.ai": 503 }, async (calls) => {
+      const result = await callWithFailover({ prompt: "hi" }, false);
+      assertEquals(result.provider, "openrouter");
+      assertEquals(calls.map((c) => c.host), ["api.z.ai", "openrouter.ai"]);
+      assertEquals(formatAttempts(result.attempts), "zai:503, bigmodel:error, openrouter:ok");
+      assertEquals(result.attempts[1].model, "glm-4.5v");
+      assertEquals(result.attempts[1].error, "unsupported request");
+    });
+  } finally {
+    registerProvider(bigmodel);
+  }
+});
+
+Deno.test("callWithFailover - client errors stop the chain", async () => {
+  await withMockedUpstream({ "api.z.ai": 400 }, async (calls) => {
+    const error = await assertRejects(() => callWithFailover({ prompt: "hi" }, false));
+    assertEquals(error instanceof FailoverError, true);
+    assertEquals((error as FailoverError).attempts.length, 1);
+    assertEquals(calls.length, 1);
+  });
+});
+
+Deno.test("callWithFailover - fallback=false disables the chain", async () => {
+  await withMockedUpstream({ "api.z.ai": 503 }, async (calls) => {
+    await assertRejects(() => callWithFailover({ prompt: "hi", fallback: false }, false));
+    assertEquals(calls.length, 1);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Provider failover chain for vision requests.
+ *
+ * Config (env):
+ * - PROVIDER_FALLBACK_CHAIN: ordered providers to try after the requested one, e.g. "zai,bigmodel,openrouter"
+ * - PROVIDER_FALLBACK_MODELS: JSON map provider -> model used when falling back, e.g. {"bigmodel":"glm-4.5v"}
+ * - PROVIDER_TIMEOUT_MS: per-attempt timeout until upstream responds (default 60000)
+ */
+
+import { UpstreamError } from "../utils/errors.ts";
+import { buildVisionPayload, collectImageUrls, resolveProvider } from "./payload.ts";
+import type { VisionInput } from "./payload.ts";
+import type { ProviderName } from "./types.ts";
+import { getProvider } from "./registry.ts";
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Outcome of a single provider attempt.
+ */
+export interface ProviderAttempt {
+  provider: ProviderName;
+  model: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  latency_ms: number;
+}
+
+export interface FailoverResult {
+  response: Response;
+  provider: ProviderName;
+  model: string;
+  attempts: ProviderAttempt[];
+}
+
+/**
+ * Thrown when no provider in the chain produced a response.
+ */
+export class FailoverError extends Error {
+  constructor(message: string, readonly attempts: ProviderAttempt[]) {
+    super(message);
+    this.name = "FailoverError";
+  }
+}
+
+function getFallbackChain(): ProviderName[] {
+  const raw = Deno.env.get("PROVIDER_FALLBACK_CHAIN") || "";
+  return raw.split(",").map((p) => p.trim()).filter((p) => getProvider(p) !== undefined);
+}
+
+function getFallbackModels(): Record<ProviderName, string> {
+  const raw = Deno.env.get("PROVIDER_FALLBACK_MODELS");
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function getTimeoutMs(): number {
+  const value = Number(Deno.env.get("PROVIDER_TIMEOUT_MS"));
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * 429, 5xx, timeouts, network and configuration errors move on to the next provider.
+ * Other upstream 4xx errors are caused by the request itself and stop the chain.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof UpstreamError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Resolve the ordered list of providers to try: the requested one first,
+ * then the configured chain (unless disabled by `fallback: false`).
+ * Fallback providers that cannot handle the request's images are skipped.
+ */
+export function resolveProviderChain(input: VisionInput): ProviderName[] {
+  const provider = resolveProvider(input.provider).name;
+  if (input.fallback === false) return [provider];
+  const multiImage = collectImageUrls(input).length > 1;
+  const fallbacks = getFallbackChain().filter((p) =>
+    p !== provider && (!multiImage || getProvider(p)!.capabilities.multiImage)
+  );
+  return [provider, ...fallbacks];
+}
+
+/**
+ * Call providers in chain order until one responds successfully.
+ */
+export async function callWithFailover(input: VisionInput, stream: boolean): Promise<FailoverResult> {
+  const chain = resolveProviderChain(input);
+  const fallbackModels = getFallbackModels();
+  const timeoutMs = getTimeoutMs();
+  const attempts: ProviderAttempt[] = [];
+  let lastError: unknown;
+
+  for (let i = 0; i < chain.length; i++) {
+    const provider = chain[i];
+    const model = i === 0
+      ? (input.model?.trim() || undefined)
+      : (fallbackModels[provider] || resolveProvider(provider).defaultModel);
+    // Reported until the payload is built; a fallback may not accept the request at all.
+    let attemptModel = model || resolveProvider(provider).defaultModel;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const started = Date.now();
+
+    try {
+      const { payload } = buildVisionPayload({ ...input, provider, model });
+      attemptModel = payload.model;
+      const response = await resolveProvider(provider).call(payload, stream, { signal: controller.signal });
+      attempts.push({ provider, model: attemptModel, ok: true, status: response.status, latency_ms: Date.now() - started });
+      return { response, provider, model: attemptModel, attempts };
+    } catch (error) {
+      lastError = error;
+      const timedOut = controller.signal.aborted;
+      attempts.push({
+        provider,
+        model: attemptModel,
+        ok: false,
+        status: error instanceof UpstreamError ? error.status : undefined,
+        error: timedOut ? `Timed out after ${timeoutMs}ms` : (error instanceof Error ? error.message : String(error)),
+        latency_ms: Date.now() - started,
+      });
+      if (!timedOut && !isRetryable(error)) break;
+    } finally {
+      // Only the wait for upstream headers is bounded; streamed bodies may run longer.
+      clearTimeout(timer);
+    }
+  }
+
+  const message = lastError instanceof Error ? lastError.message : "All providers failed";
+  throw new FailoverError(message, attempts);
+}
+
+/**
+ * Compact attempt history for response headers, e.g. "zai:503, bigmodel:ok".
+ */
+export function formatAttempts(attempts: ProviderAttempt[]): string {
+  return attempts
+    .map((a) => `${a.provider}:${a.ok ? "ok" : (a.status ?? (a.error?.startsWith("Timed out") ? "timeout" : "error"))}`)
+    .join(", ");
+}
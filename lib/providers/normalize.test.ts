@@ -0,0 +1,55 @@
+/**
+ * Tests for response normalization.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { normalizeCompletion, normalizeUsage } from "./normalize.ts";
+
+const META = { provider: "zai", model: "glm-4.6v-flash", requestId: "req-1" };
+
+Deno.test("normalizeCompletion - ZAI/BigModel response with reasoning_content and box markers", () => {
+  const result = normalizeCompletion({
+    model: "glm-4.5v",
+    choices: [{
+      finish_reason: "stop",
+      message: {
+        role: "assistant",
+        content: "<|begin_of_box|>A cat<|end_of_box|>",
+        reasoning_content: "Looking at the image...",
+      },
+    }],
+    usage: { prompt_tokens: 120, completion_tokens: 8, total_tokens: 128 },
+  }, { ...META, promptMeta: { prompt_source: "kv", prompt_id: "p1" } });
+
+  assertEquals(result, {
+    text: "A cat",
+    reasoning: "Looking at the image...",
+    finish_reason: "stop",
+    usage: { prompt_tokens: 120, completion_tokens: 8 },
+    provider: "zai",
+    model: "glm-4.5v",
+    request_id: "req-1",
+    prompt_meta: { prompt_source: "kv", prompt_id: "p1" },
+  });
+});
+
+Deno.test("normalizeCompletion - OpenRouter response with content parts and reasoning", () => {
+  const result = normalizeCompletion({
+    choices: [{
+      finish_reason: "length",
+      message: { content: [{ type: "text", text: "Two " }, { type: "text", text: "dogs" }], reasoning: "hmm" },
+    }],
+  }, META);
+
+  assertEquals(result.text, "Two dogs");
+  assertEquals(result.reasoning, "hmm");
+  assertEquals(result.finish_reason, "length");
+  assertEquals(result.usage, null);
+  assertEquals(result.model, "glm-4.6v-flash");
+  assertEquals(result.prompt_meta, null);
+});
+
+Deno.test("normalizeUsage - input/output token fields", () => {
+  assertEquals(normalizeUsage({ input_tokens: 10, output_tokens: 3 }), { prompt_tokens: 10, completion_tokens: 3 });
+  assertEquals(normalizeUsage({}), null);
+});
@@ -0,0 +1,105 @@
+/**
+ * Normalization of provider chat completion responses into a single envelope.
+ * Smooths over provider quirks: `reasoning_content` (ZAI/BigModel) vs `reasoning` (OpenRouter),
+ * content as string or parts array, GLM box markers, and differing usage field names.
+ */
+
+import type { ProviderName } from "./types.ts";
+
+export interface NormalizedUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+/**
+ * Provider-independent vision response (`response_mode: "normalized"`).
+ */
+export interface NormalizedCompletion {
+  text: string;
+  reasoning: string | null;
+  finish_reason: string | null;
+  usage: NormalizedUsage | null;
+  provider: ProviderName;
+  model: string;
+  request_id: string;
+  prompt_meta: Record<string, unknown> | null;
+}
+
+export interface NormalizeMeta {
+  provider: ProviderName;
+  model: string;
+  requestId: string;
+  promptMeta?: Record<string, unknown>;
+}
+
+// GLM vision models wrap the final answer in box markers.
+const BOX_MARKERS = /<\|begin_of_box\|>|<\|end_of_box\|>/g;
+
+export function stripBoxMarkers(text: string): string {
+  return text.replace(BOX_MARKERS, "");
+}
+
+/**
+ * Extract text from message content that may be a string or an array of parts.
+ */
+export function contentToText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        if (typeof part === "string") return part;
+        if (part && typeof part === "object" && typeof (part as Record<string, unknown>).text === "string") {
+          return (part as Record<string, unknown>).text as string;
+        }
+        return "";
+      })
+      .join("");
+  }
+  return "";
+}
+
+function toTokenCount(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Normalize usage from OpenAI-style (`prompt_tokens`) or `input_tokens`-style fields.
+ */
+export function normalizeUsage(raw: unknown): NormalizedUsage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const usage = raw as Record<string, unknown>;
+  const prompt = toTokenCount(usage.prompt_tokens) ?? toTokenCount(usage.input_tokens);
+  const completion = toTokenCount(usage.completion_tokens) ?? toTokenCount(usage.output_tokens);
+  if (prompt === undefined && completion === undefined) return null;
+  return { prompt_tokens: prompt ?? 0, completion_tokens: completion ?? 0 };
+}
+
+/**
+ * Extract reasoning text from a message or stream delta.
+ */
+export function extractReasoning(message: Record<string, unknown>): string | null {
+  const value = message.reasoning_content ?? message.reasoning;
+  const text = contentToText(value);
+  return text ? text : null;
+}
+
+/**
+ * Build the normalized envelope from a raw (non-streaming) chat completion.
+ */
+export function normalizeCompletion(raw: unknown, meta: NormalizeMeta): NormalizedCompletion {
+  const data = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+  const choices = Array.isArray(data.choices) ? data.choices : [];
+  const choice = (choices[0] ?? {}) as Record<string, unknown>;
+  const message = (choice.message ?? {}) as Record<string, unknown>;
+
+  return {
+    text: stripBoxMarkers(contentToText(message.content)).trim(),
+    reasoning: extractReasoning(message),
+    finish_reason: typeof choice.finish_reason === "string" ? choice.finish_reason : null,
+    usage: normalizeUsage(data.usage),
+    provider: meta.provider,
+    model: typeof data.model === "string" && data.model ? data.model : meta.model,
+    request_id: meta.requestId,
+    prompt_meta: meta.promptMeta ?? null,
+  };
+}
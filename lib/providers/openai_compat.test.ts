@@ -0,0 +1,94 @@
+/**
+ * Tests for the generic OpenAI-compatible provider.
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createOpenAICompatProvider, loadOpenAICompatConfigs, parseOpenAICompatConfig } from "./openai_compat.ts";
+import { buildVisionPayload } from "./payload.ts";
+import { registerProvider } from "./registry.ts";
+
+Deno.test("parseOpenAICompatConfig - named instances from object", () => {
+  const configs = parseOpenAICompatConfig({
+    "local:qwen": {
+      base_url: "http://localhost:8001/v1/",
+      model: "Qwen2-VL-7B",
+      capabilities: { multiImage: false },
+      stream_usage: false,
+    },
+  });
+  assertEquals(configs.length, 1);
+  assertEquals(configs[0].name, "local:qwen");
+  assertEquals(configs[0].baseUrl, "http://localhost:8001/v1");
+  assertEquals(configs[0].capabilities.multiImage, false);
+  assertEquals(configs[0].capabilities.imageFirst, true);
+  assertEquals(configs[0].streamUsage, false);
+});
+
+Deno.test("parseOpenAICompatConfig - missing base_url or model throws", () => {
+  assertThrows(() => parseOpenAICompatConfig({ "local:x": { model: "m" } }));
+  assertThrows(() => parseOpenAICompatConfig([{ base_url: "http://localhost", model: "m" }]));
+});
+
+Deno.test("loadOpenAICompatConfigs - an invalid instance does not drop the valid ones", () => {
+  const prev = Deno.env.get("OPENAI_COMPAT_PROVIDERS");
+  Deno.env.set("OPENAI_COMPAT_PROVIDERS", JSON.stringify({
+    "local:ok": { base_url: "http://localhost:8001/v1", model: "m" },
+    "local:broken": { model: "m" },
+  }));
+  try {
+    const [ok, broken] = loadOpenAICompatConfigs();
+    assertEquals(ok instanceof Error ? ok.message : ok.name, "local:ok");
+    assertEquals(broken instanceof Error ? broken.message : broken.name, "OpenAI-compatible provider 'local:broken': base_url and model are required");
+
+    Deno.env.set("OPENAI_COMPAT_PROVIDERS", "{not json");
+    const [invalid] = loadOpenAICompatConfigs();
+    assertEquals(invalid instanceof Error && invalid.message.startsWith("OPENAI_COMPAT_PROVIDERS: "), true);
+  } finally {
+    if (prev === undefined) Deno.env.delete("OPENAI_COMPAT_PROVIDERS");
+    else Deno.env.set("OPENAI_COMPAT_PROVIDERS", prev);
+  }
+});
+
+Deno.test("createOpenAICompatProvider - calls local stand-in /chat/completions", async () => {
+  let received: { path: string; auth: string | null; body: Record<string, unknown> } | undefined;
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    received = {
+      path: new URL(req.url).pathname,
+      auth: req.headers.get("Authorization"),
+      body: await req.json(),
+    };
+    return Response.json({ choices: [{ message: { role: "assistant", content: "ok" } }] });
+  });
+
+  try {
+    const [config] = parseOpenAICompatConfig([{
+      name: "local:qwen",
+      base_url: `http://127.0.0.1:${server.addr.port}/v1`,
+      api_key: "secret",
+      model: "Qwen2-VL-7B",
+    }]);
+    const provider = createOpenAICompatProvider(config);
+    registerProvider(provider);
+
+    Deno.env.set("DEFAULT_MODEL", "glm-4.6v-flash");
+    const built = buildVisionPayload({ provider: "local:qwen", prompt: "Hi" });
+    assertEquals(built.provider, "local:qwen");
+    assertEquals(built.payload.model, "Qwen2-VL-7B");
+
+    const response = await provider.call(built.payload, false);
+    const data = await response.json();
+
+    assertEquals(data.choices[0].message.content, "ok");
+    assertEquals(received?.path, "/v1/chat/completions");
+    assertEquals(received?.auth, "Bearer secret");
+    assertEquals(received?.body.model, "Qwen2-VL-7B");
+    assertEquals(received?.body.stream, false);
+    assertEquals(received?.body.stream_options, undefined);
+
+    await (await provider.call(built.payload, true)).body?.cancel();
+    assertEquals(received?.body.stream_options, { include_usage: true });
+  } finally {
+    Deno.env.delete("DEFAULT_MODEL");
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,186 @@
+/**
+ * Generic OpenAI-compatible provider (vLLM, Ollama, LM Studio, ...)
+ * Speaks the same /chat/completions format as ZAI, so the ZaiPayload message shape is reused.
+ *
+ * Config (env):
+ * - OPENAI_COMPAT_PROVIDERS: JSON (or path to a JSON file) with named instances:
+ *   {"local:qwen": {"base_url": "http://localhost:8001/v1", "model": "Qwen2-VL-7B", "api_key_env": "QWEN_KEY"}}
+ *   Streams request `stream_options.include_usage` for metering; set "stream_usage": false for
+ *   servers that reject the option.
+ * - OPENAI_COMPAT_BASE_URL, OPENAI_COMPAT_API_KEY, OPENAI_COMPAT_MODEL, OPENAI_COMPAT_NAME:
+ *   shorthand for a single instance (name defaults to "openai-compat")
+ */
+
+import { UpstreamError } from "../utils/errors.ts";
+import type { ProviderCallOptions, ProviderCapabilities, VisionProvider } from "./types.ts";
+import type { ZaiPayload } from "./zai.ts";
+
+export interface OpenAICompatConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  headers?: Record<string, string>;
+  capabilities: ProviderCapabilities;
+  /** Send `stream_options: { include_usage: true }` with streaming requests (default true) */
+  streamUsage: boolean;
+}
+
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  thinking: false,
+  detail: true,
+  multiImage: true,
+  imageFirst: true,
+  jsonObject: true,
+  jsonSchema: false,
+  seed: true,
+};
+
+function normalizeInstance(name: string, raw: unknown): OpenAICompatConfig {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`OpenAI-compatible provider '${name}': config must be an object`);
+  }
+  const obj = raw as Record<string, unknown>;
+  const baseUrl = typeof obj.base_url === "string" ? obj.base_url.trim() : "";
+  const model = typeof obj.model === "string" ? obj.model.trim() : "";
+  if (!baseUrl || !model) {
+    throw new Error(`OpenAI-compatible provider '${name}': base_url and model are required`);
+  }
+
+  let apiKey = typeof obj.api_key === "string" ? obj.api_key : undefined;
+  if (!apiKey && typeof obj.api_key_env === "string") {
+    apiKey = Deno.env.get(obj.api_key_env) || undefined;
+  }
+
+  const headers = obj.headers && typeof obj.headers === "object"
+    ? Object.fromEntries(Object.entries(obj.headers).map(([k, v]) => [k, String(v)]))
+    : undefined;
+
+  const capabilities = { ...DEFAULT_CAPABILITIES };
+  if (obj.capabilities && typeof obj.capabilities === "object") {
+    for (const [key, value] of Object.entries(obj.capabilities)) {
+      if (key in capabilities && typeof value === "boolean") {
+        capabilities[key as keyof ProviderCapabilities] = value;
+      }
+    }
+  }
+
+  const streamUsage = obj.stream_usage !== false;
+
+  return { name, baseUrl: baseUrl.replace(/\/+$/, ""), apiKey, model, headers, capabilities, streamUsage };
+}
+
+function tryNormalizeInstance(name: string, raw: unknown): OpenAICompatConfig | Error {
+  try {
+    return normalizeInstance(name, raw);
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+/**
+ * Parse instance configs one by one, so an invalid instance does not hide the valid ones.
+ * Invalid instances are returned as errors in their place.
+ */
+export function parseOpenAICompatInstances(raw: unknown): Array<OpenAICompatConfig | Error> {
+  if (Array.isArray(raw)) {
+    return raw.map((item, idx) => {
+      const name = item && typeof item === "object" ? (item as Record<string, unknown>).name : undefined;
+      if (typeof name !== "string" || !name.trim()) {
+        return new Error(`OpenAI-compatible provider #${idx}: name is required`);
+      }
+      return tryNormalizeInstance(name.trim(), item);
+    });
+  }
+  if (raw && typeof raw === "object") {
+    return Object.entries(raw).map(([name, item]) => tryNormalizeInstance(name, item));
+  }
+  return [new Error("OpenAI-compatible provider config must be an object or array")];
+}
+
+/**
+ * Parse instance configs from a JSON object keyed by provider name,
+ * or an array of objects with a `name` field. Throws on the first invalid instance.
+ */
+export function parseOpenAICompatConfig(raw: unknown): OpenAICompatConfig[] {
+  return parseOpenAICompatInstances(raw).map((item) => {
+    if (item instanceof Error) throw item;
+    return item;
+  });
+}
+
+/**
+ * Load instance configs from environment. Each instance is validated on its own;
+ * invalid ones (and an unreadable OPENAI_COMPAT_PROVIDERS) are returned as errors.
+ */
+export function loadOpenAICompatConfigs(): Array<OpenAICompatConfig | Error> {
+  const configs: Array<OpenAICompatConfig | Error> = [];
+
+  const source = Deno.env.get("OPENAI_COMPAT_PROVIDERS")?.trim();
+  if (source) {
+    try {
+      const json = source.startsWith("{") || source.startsWith("[") ? source : Deno.readTextFileSync(source);
+      configs.push(...parseOpenAICompatInstances(JSON.parse(json)));
+    } catch (error) {
+      configs.push(new Error(`OPENAI_COMPAT_PROVIDERS: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  const baseUrl = Deno.env.get("OPENAI_COMPAT_BASE_URL")?.trim();
+  if (baseUrl) {
+    const name = Deno.env.get("OPENAI_COMPAT_NAME")?.trim() || "openai-compat";
+    configs.push(tryNormalizeInstance(name, {
+      base_url: baseUrl,
+      api_key: Deno.env.get("OPENAI_COMPAT_API_KEY"),
+      model: Deno.env.get("OPENAI_COMPAT_MODEL"),
+    }));
+  }
+
+  return configs;
+}
+
+/**
+ * Create a registry provider for an OpenAI-compatible endpoint.
+ */
+export function createOpenAICompatProvider(config: OpenAICompatConfig): VisionProvider {
+  const call = async (
+    payload: ZaiPayload,
+    stream = false,
+    opts: ProviderCallOptions = {},
+  ): Promise<Response> => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...(config.headers ?? {}),
+    };
+    if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+    const body: ZaiPayload = {
+      ...payload,
+      stream,
+      ...(stream && config.streamUsage ? { stream_options: { include_usage: true } } : {}),
+    };
+
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: opts.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      throw new UpstreamError(`${config.name} API error (${response.status}): ${errorText}`, response.status);
+    }
+
+    return response;
+  };
+
+  return {
+    name: config.name,
+    defaultModel: config.model,
+    // The instance model is explicit configuration; DEFAULT_MODEL targets the built-in providers.
+    allowEnvDefaultModel: false,
+    capabilities: config.capabilities,
+    call,
+  };
+}
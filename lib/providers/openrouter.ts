@@ -2,6 +2,9 @@
  * OpenRouter API Provider
  */
 
+import { UpstreamError } from "../utils/errors.ts";
+import type { ProviderCallOptions, VisionProvider } from "./types.ts";
+
 export interface OpenRouterPayload {
   model: string;
   messages: Array<{
@@ -9,11 +12,13 @@ export interface OpenRouterPayload {
     content: Array<{ type: string; text?: string; image_url?: { url: string; detail?: string } }>;
   }>;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
 }
 
 export async function callOpenRouter(
   payload: OpenRouterPayload,
-  stream = false
+  stream = false,
+  opts: ProviderCallOptions = {},
 ): Promise<Response> {
   const apiKey = Deno.env.get("OPENROUTER_API_KEY");
   if (!apiKey) {
@@ -36,18 +41,28 @@ export async function callOpenRouter(
   const body: OpenRouterPayload = {
     ...payload,
     stream,
+    // Usage in the final chunk is needed for metering streamed calls
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
   };
 
   const response = await fetch(url, {
     method: "POST",
     headers,
     body: JSON.stringify(body),
+    signal: opts.signal,
   });
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`OpenRouter API error (${response.status}): ${errorText}`);
+    throw new UpstreamError(`OpenRouter API error (${response.status}): ${errorText}`, response.status);
   }
 
   return response;
 }
+
+export const openRouterProvider: VisionProvider = {
+  name: "openrouter",
+  defaultModel: "qwen/qwen2.5-vl-72b-instruct",
+  capabilities: { thinking: false, detail: true, multiImage: true, imageFirst: false, jsonObject: true, jsonSchema: true, seed: true },
+  call: callOpenRouter,
+};
@@ -1,4 +1,16 @@
-import { buildVisionPayload } from "./payload.ts";
+import {
+  applyGenerationDefaults,
+  buildVisionPayload,
+  collectImageUrls,
+  parseVisionRequest,
+  prepareInlineImages,
+  resolveProvider,
+  validateGenerationParams,
+  validateProviderParams,
+} from "./payload.ts";
+import { encodeBase64 } from "../utils/image.ts";
+import type { VisionInput } from "./payload.ts";
+import { registerProvider } from "./registry.ts";
 
 function assert(condition: unknown, message: string): asserts condition {
   if (!condition) throw new Error(message);
@@ -58,3 +70,196 @@ Deno.test("buildVisionPayload: for zai, image content goes before text (docs exa
   assert(items[0].type === "image_url", "expected first item to be image_url");
   assert(items[1].type === "text", "expected second item to be text");
 });
+
+Deno.test("buildVisionPayload: registered provider capabilities drive the payload", () => {
+  registerProvider({
+    name: "test-provider",
+    defaultModel: "test-model",
+    capabilities: {
+      thinking: false,
+      detail: false,
+      multiImage: true,
+      imageFirst: true,
+      jsonObject: false,
+      jsonSchema: false,
+      seed: false,
+    },
+    call: () => Promise.resolve(new Response("{}")),
+  });
+
+  withEnv("DEFAULT_MODEL", undefined, () => {
+    const { payload, provider } = buildVisionPayload({
+      provider: "test-provider",
+      prompt: "Describe",
+      image_url: "https://example.com/image.jpg",
+      detail: "high",
+      thinking: "enabled",
+    });
+    assert(provider === "test-provider", `expected provider=test-provider, got ${String(provider)}`);
+    assert(payload.model === "test-model", `expected test-model, got ${payload.model}`);
+    assert(payload.thinking === undefined, "expected thinking to be dropped");
+    const items = payload.messages[0].content;
+    assert(items[0].type === "image_url", "expected first item to be image_url");
+    assert(items[0].image_url?.detail === undefined, "expected detail to be dropped");
+  });
+});
+
+Deno.test("buildVisionPayload: multi-turn merges system text and keeps images in the first user turn", () => {
+  const { payload } = buildVisionPayload({
+    provider: "zai",
+    system: "You are a receipt parser.",
+    messages: [
+      { role: "system", content: "Answer in Russian." },
+      { role: "user", content: "Что на фото?" },
+      { role: "assistant", content: "Чек из магазина." },
+    ],
+    prompt: "Какая сумма?",
+    image_url: "https://example.com/receipt.jpg",
+  });
+
+  const roles = payload.messages.map((m) => m.role);
+  assert(roles.join(",") === "system,user,assistant,user", `unexpected roles ${roles.join(",")}`);
+  assert(
+    payload.messages[0].content[0].text === "You are a receipt parser.\n\nAnswer in Russian.",
+    "expected merged system text",
+  );
+
+  const firstUser = payload.messages[1].content;
+  assert(firstUser[0].type === "image_url", "expected image first for zai");
+  assert(firstUser[1].text === "Что на фото?", "expected original user text after the image");
+
+  const current = payload.messages[3].content;
+  assert(current.length === 1 && current[0].text === "Какая сумма?", "expected text-only follow-up turn");
+});
+
+Deno.test("buildVisionPayload: generation params are mapped per provider", () => {
+  const input = { prompt: "Describe", temperature: 1.5, top_p: 0.9, max_tokens: 256, stop: ["\n\n", "END"], seed: 7 };
+
+  const zai = buildVisionPayload({ ...input, provider: "zai" }).payload;
+  assert(zai.temperature === 1, `expected temperature capped at 1, got ${zai.temperature}`);
+  assert(zai.max_tokens === 256 && zai.top_p === 0.9, "expected max_tokens and top_p to pass through");
+  assert(JSON.stringify(zai.stop) === JSON.stringify(["\n\n"]), "expected a single stop word for GLM");
+  assert(zai.seed === undefined, "expected seed to be dropped for zai");
+
+  const openrouter = buildVisionPayload({ ...input, provider: "openrouter" }).payload;
+  assert(openrouter.temperature === 1.5, "expected temperature to pass through");
+  assert(openrouter.seed === 7, "expected seed to pass through");
+  assert(JSON.stringify(openrouter.stop) === JSON.stringify(["\n\n", "END"]), "expected stop list to pass through");
+});
+
+Deno.test("validateProviderParams: GLM limits reject values instead of changing them", () => {
+  const zai = resolveProvider("zai");
+  assert(validateProviderParams(zai, { temperature: 1, stop: ["END"] }) === null, "expected GLM-compatible params to pass");
+  assert(
+    validateProviderParams(zai, { temperature: 1.5 }) === "Provider 'zai' accepts temperature up to 1",
+    "expected temperature above 1 to be rejected",
+  );
+  assert(
+    validateProviderParams(resolveProvider("bigmodel"), { stop: ["\n\n", "END"] }) === "Provider 'bigmodel' accepts at most 1 stop sequence",
+    "expected a second stop word to be rejected",
+  );
+  assert(validateProviderParams(resolveProvider("openrouter"), { temperature: 1.5, stop: ["a", "b"] }) === null, "expected no limits");
+});
+
+Deno.test("parseVisionRequest: multipart generation params are parsed and validated", async () => {
+  const form = new FormData();
+  form.set("prompt", "Describe");
+  form.set("temperature", "0.2");
+  form.set("max_tokens", "100");
+  form.set("stop", '["END"]');
+  form.set("top_p", "abc");
+  const input = await parseVisionRequest(new Request("http://localhost/", { method: "POST", body: form }));
+
+  assert(input.temperature === 0.2 && input.max_tokens === 100, "expected numeric params to be parsed");
+  assert(Array.isArray(input.stop) && input.stop[0] === "END", "expected stop to be parsed as JSON array");
+  assert(validateGenerationParams(input as Record<string, unknown>)?.startsWith("top_p") === true, "expected top_p error");
+  assert(validateGenerationParams({ max_tokens: 1.5 }) !== null, "expected max_tokens integer check");
+});
+
+Deno.test("applyGenerationDefaults: request params override prompt defaults", () => {
+  const input: VisionInput = { temperature: 0.1 };
+  applyGenerationDefaults(input, { temperature: 0.7, max_tokens: 512 });
+  assert(input.temperature === 0.1, "expected request temperature to win");
+  assert(input.max_tokens === 512, "expected default max_tokens");
+});
+
+// Minimal headers that sniffImageInfo accepts
+const PNG_1x1 = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1,
+]);
+const JPEG_2x3 = new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x03, 0x00, 0x02, 0x01, 0x01, 0x11, 0x00]);
+
+Deno.test("collectImageUrls: base64 images get the sniffed MIME type", () => {
+  const urls = collectImageUrls({ image_base64: [encodeBase64(JPEG_2x3), encodeBase64(PNG_1x1)] });
+  assert(urls[0].startsWith("data:image/jpeg;base64,"), `expected jpeg data URL, got ${urls[0].slice(0, 30)}`);
+  assert(urls[1].startsWith("data:image/png;base64,"), `expected png data URL, got ${urls[1].slice(0, 30)}`);
+});
+
+Deno.test("parseVisionRequest: multiple files become images in form order", async () => {
+  const form = new FormData();
+  form.append("file", new File([PNG_1x1], "a.png", { type: "image/png" }));
+  form.append("file", new File([JPEG_2x3], "b.jpg", { type: "image/jpeg" }));
+  const input = await parseVisionRequest(new Request("http://localhost/", { method: "POST", body: form }));
+
+  assert((await prepareInlineImages(input)).ok, "expected inline images to be valid");
+  const urls = collectImageUrls(input);
+  assert(urls.length === 2, `expected 2 images, got ${urls.length}`);
+  assert(urls[0].startsWith("data:image/png;") && urls[1].startsWith("data:image/jpeg;"), "expected form order");
+});
+
+Deno.test("prepareInlineImages: rejects invalid data and fixes mislabeled data URLs", async () => {
+  const invalid = await prepareInlineImages({ image_base64: encodeBase64(new TextEncoder().encode("not an image")) });
+  assert(!invalid.ok && invalid.error.code === "INVALID_IMAGE" && invalid.error.status === 400, "expected INVALID_IMAGE 400");
+
+  const input: VisionInput = { images: [`data:image/png;base64,${encodeBase64(JPEG_2x3)}`, "https://example.com/a.jpg"] };
+  assert((await prepareInlineImages(input)).ok, "expected valid images");
+  assert(input.images![0].startsWith("data:image/jpeg;base64,"), "expected MIME to be corrected");
+  assert(input.images![1] === "https://example.com/a.jpg", "expected remote URL to be kept");
+});
+
+Deno.test("prepareInlineImages: image_fetch validates the mode and blocks private URLs", async () => {
+  const invalid = await prepareInlineImages({ image_url: "https://example.com/a.jpg", image_fetch: "copy" as VisionInput["image_fetch"] });
+  assert(!invalid.ok && invalid.error.code === "INVALID_IMAGE_OPTIONS", "expected INVALID_IMAGE_OPTIONS");
+
+  const input: VisionInput = { image_url: "http://169.254.169.254/latest/meta-data", image_fetch: "inline" };
+  const blocked = await prepareInlineImages(input);
+  assert(!blocked.ok && blocked.error.code === "IMAGE_URL_FORBIDDEN", "expected IMAGE_URL_FORBIDDEN");
+});
+
+Deno.test("prepareInlineImages: strips JPEG metadata before the provider sees it", async () => {
+  const xmp = new TextEncoder().encode("http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>");
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0x00, xmp.length + 2, ...xmp, ...JPEG_2x3.subarray(2)]);
+  const base64 = encodeBase64(jpeg);
+
+  const kept: VisionInput = { image_base64: base64, strip: "none" };
+  assert((await prepareInlineImages(kept)).ok, "expected valid image");
+  assert(kept.image_base64 === `data:image/jpeg;base64,${base64}`, "expected metadata to be kept");
+
+  const stripped: VisionInput = { image_base64: base64, strip: "gps" };
+  assert((await prepareInlineImages(stripped)).ok, "expected valid image");
+  assert(stripped.image_base64 === `data:image/jpeg;base64,${encodeBase64(JPEG_2x3)}`, "expected XMP to be removed");
+
+  const invalid = await prepareInlineImages({ image_base64: base64, strip: "exif" as VisionInput["strip"] });
+  assert(!invalid.ok && invalid.error.code === "INVALID_STRIP_MODE", "expected INVALID_STRIP_MODE");
+});
+
+Deno.test("prepareInlineImages: image parts in messages are validated like top-level images", async () => {
+  const mislabeled = `data:image/png;base64,${encodeBase64(JPEG_2x3)}`;
+  const input: VisionInput = {
+    messages: [{ role: "user", content: [{ type: "image_url", image_url: { url: mislabeled } }, { type: "text", text: "What is this?" }] }],
+  };
+  assert((await prepareInlineImages(input)).ok, "expected valid message image");
+  const [part] = input.messages![0].content as { image_url?: { url: string } }[];
+  assert(part.image_url!.url.startsWith("data:image/jpeg;base64,"), "expected MIME to be corrected");
+
+  const invalid = await prepareInlineImages({
+    messages: [{ role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,bm90IGFuIGltYWdl" } }] }],
+  });
+  assert(!invalid.ok && invalid.error.code === "INVALID_IMAGE", "expected INVALID_IMAGE");
+
+  const blocked = await prepareInlineImages({
+    image_fetch: "inline",
+    messages: [{ role: "assistant", content: [{ type: "image_url", image_url: { url: "http://127.0.0.1/a.png" } }] }],
+  });
+  assert(!blocked.ok && blocked.error.code === "IMAGE_URL_FORBIDDEN", "expected IMAGE_URL_FORBIDDEN");
+});
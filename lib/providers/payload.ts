@@ -3,19 +3,79 @@
  */
 
 import type { PromptCriteria } from "../storage/types.ts";
+import type { JsonSchema } from "../utils/json_schema.ts";
+import type {
+  GenerationParams,
+  ProviderName,
+  ResponseFormat,
+  VisionContentPart,
+  VisionMessage,
+  VisionPayload,
+  VisionProvider,
+} from "./types.ts";
+import { DEFAULT_PROVIDER, getProvider } from "./registry.ts";
+import { buildJsonInstruction, getStructuredSpec } from "./structured.ts";
+import { decodeBase64, encodeBase64, imageExtension, imageMimeType, parseDataUrl, sniffImageInfo } from "../utils/image.ts";
+import type { ImageFormat, ImageValidationError } from "../utils/image.ts";
+import { isResizeEnabledByDefault, prepareImage } from "../utils/resize.ts";
+import { getDefaultStripMode, parseStripMode, stripJpegMetadata } from "../utils/exif.ts";
+import type { StripMode } from "../utils/exif.ts";
+import type { ImageDimensions } from "../utils/resize.ts";
+import { fetchRemoteImage, getDefaultImageFetchMode, parseImageFetchMode } from "../utils/remote_image.ts";
+import type { ImageFetchMode } from "../utils/remote_image.ts";
+import { createTmpObjectKey, getObjectStore, getObjectUrl } from "../storage/object_store.ts";
 
-export interface VisionInput {
-  provider?: "zai" | "bigmodel" | "openrouter";
+/**
+ * Conversation turn accepted in `VisionInput.messages`.
+ */
+export interface VisionInputMessage {
+  role: "system" | "user" | "assistant";
+  content: string | VisionContentPart[];
+}
+
+/**
+ * Vision request input. Generation params (temperature, top_p, max_tokens, stop, seed)
+ * override defaults stored with the KV prompt.
+ */
+export interface VisionInput extends GenerationParams {
+  provider?: ProviderName;
   model?: string;
   prompt?: string;
+  /** Prior conversation turns (system/user/assistant) */
+  messages?: VisionInputMessage[];
+  /** System text; resolved KV prompts land here when `messages` are used */
+  system?: string;
   prompt_kv?: PromptCriteria;
   prompt_id?: string;
   image_url?: string;
-  image_base64?: string;
+  /** Base64 without `data:` prefix; multipart uploads with several files produce an array */
+  image_base64?: string | string[];
   images?: string[];
   detail?: "low" | "high" | "auto";
   thinking?: "enabled" | "disabled" | { type: "enabled" | "disabled" };
   stream?: boolean;
+  /** Set to false to disable the provider fallback chain for this request */
+  fallback?: boolean;
+  /** "raw" (default) returns upstream JSON as is, "normalized" returns a provider-independent envelope */
+  response_mode?: "raw" | "normalized";
+  /** OpenAI-style structured output request */
+  response_format?: ResponseFormat;
+  /** Shorthand for response_format json_schema */
+  json_schema?: JsonSchema;
+  /** Number of repair retries when output does not match the schema */
+  schema_retries?: number;
+  /** Downscale oversized inline images instead of rejecting them */
+  resize?: boolean;
+  /** Maximum width/height for inline images (implies `resize`) */
+  max_side?: number;
+  /** Fetch remote image URLs on the server: "inline" as base64 or "rehost" to object storage (default IMAGE_FETCH) */
+  image_fetch?: ImageFetchMode;
+  /** JPEG metadata removed before images reach the provider (default IMAGE_STRIP_METADATA) */
+  strip?: StripMode;
+  /** Serve and store identical requests from the response cache (default VISION_CACHE) */
+  cache?: boolean;
+  /** Webhook notified when an asynchronous job (`POST /v1/vision/jobs`) finishes */
+  callback_url?: string;
 }
 
 function parseTagsInput(value: unknown): string[] | undefined {
@@ -52,6 +112,92 @@ function parseNumberInput(value: unknown): number | undefined {
   return undefined;
 }
 
+export const GENERATION_PARAM_KEYS = ["temperature", "top_p", "max_tokens", "stop", "seed"] as const;
+
+function parseStopInput(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (trimmed.startsWith("[")) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Leave as string; rejected by validation
+    }
+  }
+  return value;
+}
+
+/**
+ * Coerce numeric generation params from strings (multipart, form-like JSON).
+ * Unparseable values are kept as is so validation can reject them.
+ */
+function normalizeGenerationParams(raw: Record<string, unknown>): void {
+  for (const key of ["temperature", "top_p", "max_tokens", "seed"] as const) {
+    if (raw[key] === undefined || raw[key] === "") {
+      delete raw[key];
+      continue;
+    }
+    const parsed = parseNumberInput(raw[key]);
+    if (parsed !== undefined) raw[key] = parsed;
+  }
+  if (raw.stop !== undefined) raw.stop = parseStopInput(raw.stop);
+}
+
+/**
+ * Validate generation param ranges.
+ * @returns Error message or null when valid.
+ */
+export function validateGenerationParams(params: Record<string, unknown>): string | null {
+  const { temperature, top_p, max_tokens, stop, seed } = params;
+  if (temperature !== undefined && (typeof temperature !== "number" || temperature < 0 || temperature > 2)) {
+    return "temperature must be a number between 0 and 2";
+  }
+  if (top_p !== undefined && (typeof top_p !== "number" || top_p <= 0 || top_p > 1)) {
+    return "top_p must be a number greater than 0 and at most 1";
+  }
+  if (max_tokens !== undefined && (!Number.isInteger(max_tokens) || (max_tokens as number) < 1)) {
+    return "max_tokens must be a positive integer";
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    return "seed must be an integer";
+  }
+  if (stop !== undefined) {
+    const list = Array.isArray(stop) ? stop : [stop];
+    if (list.length === 0 || list.length > 4 || list.some((item) => typeof item !== "string" || !item)) {
+      return "stop must be a non-empty string or an array of up to 4 non-empty strings";
+    }
+  }
+  return null;
+}
+
+/**
+ * Check generation params against the provider's own limits (`paramLimits`).
+ * @returns Error message or null when valid.
+ */
+export function validateProviderParams(provider: VisionProvider, params: Record<string, unknown>): string | null {
+  const limits = provider.paramLimits;
+  if (!limits) return null;
+  const { temperature, stop } = params;
+  if (typeof temperature === "number" && temperature > limits.maxTemperature) {
+    return `Provider '${provider.name}' accepts temperature up to ${limits.maxTemperature}`;
+  }
+  if (Array.isArray(stop) && stop.length > limits.maxStop) {
+    return `Provider '${provider.name}' accepts at most ${limits.maxStop} stop sequence${limits.maxStop === 1 ? "" : "s"}`;
+  }
+  return null;
+}
+
+/**
+ * Fill generation params not set by the request from defaults (e.g. stored with a KV prompt).
+ */
+export function applyGenerationDefaults(input: VisionInput, defaults: GenerationParams | undefined): void {
+  if (!defaults) return;
+  const target = input as Record<string, unknown>;
+  for (const key of GENERATION_PARAM_KEYS) {
+    if (target[key] === undefined && defaults[key] !== undefined) target[key] = defaults[key];
+  }
+}
+
 function normalizePromptCriteria(raw: unknown): PromptCriteria | undefined {
   if (!raw || typeof raw !== "object") return undefined;
   const obj = raw as Record<string, unknown>;
@@ -114,6 +260,22 @@ function normalizeVisionInput(raw: Record<string, unknown>): VisionInput {
   if (promptCriteria) {
     raw.prompt_kv = promptCriteria;
   }
+  normalizeGenerationParams(raw);
+  if (raw.max_side !== undefined) {
+    const maxSide = parseNumberInput(raw.max_side);
+    if (maxSide !== undefined) raw.max_side = maxSide;
+  }
+  if (typeof raw.resize === "string") {
+    raw.resize = raw.resize.toLowerCase() !== "false" && raw.resize !== "0";
+  }
+  if (typeof raw.cache === "string") {
+    raw.cache = raw.cache.toLowerCase() !== "false" && raw.cache !== "0";
+  }
+  if (raw.schema_retries !== undefined) {
+    const retries = parseNumberInput(raw.schema_retries);
+    if (retries === undefined) delete raw.schema_retries;
+    else raw.schema_retries = retries;
+  }
   if (typeof raw.prompt_id === "string") {
     const trimmed = raw.prompt_id.trim();
     if (trimmed) {
@@ -125,74 +287,297 @@ function normalizeVisionInput(raw: Record<string, unknown>): VisionInput {
   return raw as VisionInput;
 }
 
-export function buildVisionPayload(input: VisionInput) {
-  const provider = input.provider === "zai" || input.provider === "bigmodel" || input.provider === "openrouter"
-    ? input.provider
-    : "zai";
-  const model = input.model?.trim() || getDefaultModel(provider);
-
-  // Build content array
-  const content: Array<{
-    type: string;
-    text?: string;
-    image_url?: { url: string; detail?: string };
-  }> = [];
-
-  // Collect all image URLs
+/**
+ * Validate the `messages` array shape.
+ * @returns Error message or null when valid.
+ */
+export function validateMessages(messages: unknown): string | null {
+  if (messages === undefined) return null;
+  if (!Array.isArray(messages)) return "messages must be an array";
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (!message || typeof message !== "object") return `messages[${i}] must be an object`;
+    const { role, content } = message as Record<string, unknown>;
+    if (role !== "system" && role !== "user" && role !== "assistant") {
+      return `messages[${i}].role must be 'system', 'user' or 'assistant'`;
+    }
+    if (typeof content === "string") continue;
+    if (!Array.isArray(content) || content.some((part) => !part || typeof part !== "object" || typeof part.type !== "string")) {
+      return `messages[${i}].content must be a string or an array of content parts`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve the provider for a request; unknown or missing names fall back to the default provider.
+ */
+export function resolveProvider(name?: ProviderName): VisionProvider {
+  return (name ? getProvider(name) : undefined) ?? getProvider(DEFAULT_PROVIDER)!;
+}
+
+function toBase64List(value: VisionInput["image_base64"]): string[] {
+  if (Array.isArray(value)) return value.filter((item) => typeof item === "string" && item);
+  return value ? [value] : [];
+}
+
+function base64ToDataUrl(base64: string): string {
+  if (base64.startsWith("data:")) return base64;
+  const bytes = decodeBase64(base64);
+  const info = bytes ? sniffImageInfo(bytes) : null;
+  return `data:${info ? imageMimeType(info.format) : "image/png"};base64,${base64}`;
+}
+
+/**
+ * Original and final size of an inline image that was downscaled.
+ */
+export interface ImageResizeReport {
+  /** Position among the request images (collectImageUrls order) */
+  index: number;
+  original: ImageDimensions;
+  final: ImageDimensions;
+}
+
+export type PrepareInlineImagesResult =
+  | { ok: true; resized: ImageResizeReport[]; fetched: number }
+  | { ok: false; error: ImageValidationError };
+
+type ImageUrlResult = { ok: true; url: string } | { ok: false; error: ImageValidationError };
+
+/**
+ * Store a fetched image in the object store and return a URL the provider can read.
+ */
+async function rehostImage(bytes: Uint8Array, format: ImageFormat, mime: string): Promise<string> {
+  const store = getObjectStore();
+  const key = createTmpObjectKey(imageExtension(format));
+  await store.put(key, bytes, mime);
+  return (await getObjectUrl(store, key)).url;
+}
+
+/**
+ * Decode every inline image (`image_base64` and `data:` URLs), validate it like uploads
+ * and rewrite it as a data URL with the sniffed MIME type.
+ * With `resize` (or `max_side`, or IMAGE_RESIZE=1) oversized JPEG/PNG images are downscaled
+ * to the provider limits instead of being rejected.
+ * With `image_fetch` (or IMAGE_FETCH) remote URLs are downloaded and validated the same way,
+ * then inlined or re-hosted; otherwise they are passed to the provider as is.
+ * `image_url` parts of `messages` go through the same checks.
+ */
+export async function prepareInlineImages(input: VisionInput): Promise<PrepareInlineImagesResult> {
+  if (input.max_side !== undefined && (!Number.isInteger(input.max_side) || input.max_side < 1)) {
+    return { ok: false, error: { code: "INVALID_IMAGE_OPTIONS", message: "max_side must be a positive integer", status: 400 } };
+  }
+  const fetchMode = input.image_fetch === undefined ? getDefaultImageFetchMode() : parseImageFetchMode(input.image_fetch);
+  if (!fetchMode) {
+    return {
+      ok: false,
+      error: { code: "INVALID_IMAGE_OPTIONS", message: "image_fetch must be 'off', 'inline' or 'rehost'", status: 400 },
+    };
+  }
+  const stripMode = input.strip === undefined ? getDefaultStripMode() : parseStripMode(input.strip);
+  if (!stripMode) {
+    return { ok: false, error: { code: "INVALID_STRIP_MODE", message: "strip must be 'none', 'gps' or 'all'", status: 400 } };
+  }
+  const options = {
+    resize: input.resize ?? (input.max_side !== undefined || isResizeEnabledByDefault()),
+    maxSide: input.max_side,
+    limits: resolveProvider(input.provider).imageLimits,
+  };
+  const resized: ImageResizeReport[] = [];
+  let index = 0;
+  let fetched = 0;
+
+  // `base64` is the original encoding of inline images; remote images have none
+  const place = async (bytes: Uint8Array, base64?: string): Promise<ImageUrlResult> => {
+    const position = index++;
+    const result = await prepareImage(bytes, options);
+    if (!result.ok) return result;
+    if (result.resized) {
+      resized.push({
+        index: position,
+        original: result.original,
+        final: { width: result.info.width, height: result.info.height, size: result.bytes.length },
+      });
+    }
+    // Same metadata policy as uploads, so locations do not reach the provider or the rehost bucket
+    const stripped = result.info.format === "jpeg" && stripMode !== "none";
+    const output = stripped ? stripJpegMetadata(result.bytes, stripMode) : result.bytes;
+    if (base64 === undefined && fetchMode === "rehost") {
+      try {
+        return { ok: true, url: await rehostImage(output, result.info.format, result.mime) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { ok: false, error: { code: "IMAGE_REHOST_FAILED", message, status: 500 } };
+      }
+    }
+    const data = result.resized || stripped || base64 === undefined ? encodeBase64(output) : base64;
+    return { ok: true, url: `data:${result.mime};base64,${data}` };
+  };
+  const check = (base64: string): Promise<ImageUrlResult> => {
+    const bytes = decodeBase64(base64);
+    if (!bytes) {
+      index++;
+      return Promise.resolve({ ok: false, error: { code: "INVALID_IMAGE", message: "Image data is not valid base64", status: 400 } });
+    }
+    return place(bytes, base64);
+  };
+  const rewriteUrl = async (url: string): Promise<ImageUrlResult> => {
+    const data = parseDataUrl(url);
+    if (data) return check(data.base64);
+    if (fetchMode === "off") {
+      index++;
+      return { ok: true, url };
+    }
+    const remote = await fetchRemoteImage(url);
+    if (!remote.ok) return remote;
+    fetched++;
+    return place(remote.bytes);
+  };
+
+  if (input.image_url) {
+    const result = await rewriteUrl(input.image_url);
+    if (!result.ok) return result;
+    input.image_url = result.url;
+  }
+
+  const inline = toBase64List(input.image_base64);
+  if (inline.length > 0) {
+    const urls: string[] = [];
+    for (const item of inline) {
+      const result = item.startsWith("data:") ? await rewriteUrl(item) : await check(item);
+      if (!result.ok) return result;
+      urls.push(result.url);
+    }
+    input.image_base64 = urls.length === 1 ? urls[0] : urls;
+  }
+
+  if (Array.isArray(input.images)) {
+    const urls: string[] = [];
+    for (const item of input.images) {
+      if (typeof item !== "string") {
+        return { ok: false, error: { code: "INVALID_IMAGE", message: "images must be an array of strings", status: 400 } };
+      }
+      const result = await rewriteUrl(item);
+      if (!result.ok) return result;
+      urls.push(result.url);
+    }
+    input.images = urls;
+  }
+
+  // Images in conversation history get the same checks as the current turn
+  for (const message of input.messages ?? []) {
+    if (typeof message.content === "string") continue;
+    for (const part of message.content) {
+      if (part.type !== "image_url") continue;
+      if (typeof part.image_url?.url !== "string") {
+        return { ok: false, error: { code: "INVALID_IMAGE", message: "image_url parts must have a url", status: 400 } };
+      }
+      const result = await rewriteUrl(part.image_url.url);
+      if (!result.ok) return result;
+      part.image_url = { ...part.image_url, url: result.url };
+    }
+  }
+
+  return { ok: true, resized, fetched };
+}
+
+/**
+ * Collect all image URLs of a request in content order.
+ */
+export function collectImageUrls(input: VisionInput): string[] {
   const imageUrls: string[] = [];
   if (input.image_url) imageUrls.push(input.image_url);
-  if (input.image_base64) {
-    imageUrls.push(`data:image/png;base64,${input.image_base64}`);
+  for (const base64 of toBase64List(input.image_base64)) {
+    imageUrls.push(base64ToDataUrl(base64));
   }
   if (input.images && Array.isArray(input.images)) {
     imageUrls.push(...input.images);
   }
+  return imageUrls;
+}
 
-  // Add images to content
-  for (const url of imageUrls) {
-    const imageContent: { type: string; image_url: { url: string; detail?: string } } = {
+export function buildVisionPayload(input: VisionInput) {
+  const visionProvider = resolveProvider(input.provider);
+  const provider = visionProvider.name;
+  const { capabilities } = visionProvider;
+  const model = input.model?.trim() || getDefaultModel(visionProvider);
+
+  // Collect images
+  const imageParts: VisionContentPart[] = [];
+  for (const url of collectImageUrls(input)) {
+    const imageContent: VisionContentPart = {
       type: "image_url",
       image_url: { url },
     };
 
-    // Add detail if specified
-    if (input.detail) {
-      imageContent.image_url.detail = input.detail;
+    // Add detail if specified and supported
+    if (input.detail && capabilities.detail) {
+      imageContent.image_url!.detail = input.detail;
     }
 
-    content.push(imageContent);
+    imageParts.push(imageContent);
   }
 
-  // Add text prompt
-  if (input.prompt) {
-    const textContent = {
-      type: "text",
-      text: input.prompt,
+  // Structured output: forward response_format when supported, otherwise instruct via prompt
+  const structured = getStructuredSpec(input);
+  const spec = structured.ok ? structured.spec : null;
+  let responseFormat: ResponseFormat | undefined;
+  let promptText = input.prompt;
+  let systemText = input.system;
+  if (spec?.mode === "json_schema" && capabilities.jsonSchema) {
+    // strict is forwarded only when the client set it: strict mode rejects schemas that are not
+    // fully required with additionalProperties: false
+    responseFormat = {
+      type: "json_schema",
+      json_schema: { name: spec.name, schema: spec.schema!, ...(spec.strict !== undefined ? { strict: spec.strict } : {}) },
     };
-    // ZAI docs examples put image first, then text.
-    if (provider === "zai") {
-      content.push(textContent);
+  } else if (spec) {
+    if (capabilities.jsonObject) responseFormat = { type: "json_object" };
+    // Without a current-turn prompt the instruction goes into the system message
+    if (promptText || !input.messages?.length) {
+      promptText = [promptText, buildJsonInstruction(spec)].filter(Boolean).join("\n\n");
+    } else {
+      systemText = [systemText, buildJsonInstruction(spec)].filter(Boolean).join("\n\n");
+    }
+  }
+
+  // Conversation history: system texts are merged into a single leading system message
+  const systemParts = systemText ? [systemText] : [];
+  const messages: VisionMessage[] = [];
+  for (const message of input.messages ?? []) {
+    const content = toContentParts(message.content);
+    if (message.role === "system") {
+      systemParts.push(...content.map((part) => part.text ?? "").filter(Boolean));
     } else {
-      content.unshift(textContent);
+      messages.push({ role: message.role, content });
     }
   }
+  if (systemParts.length > 0) {
+    messages.unshift({ role: "system", content: [{ type: "text", text: systemParts.join("\n\n") }] });
+  }
 
-  // Build messages
-  const messages = [
-    {
-      role: "user",
-      content,
-    },
-  ];
+  // Images belong to the first user turn of the conversation (follow-ups refer to the same images);
+  // without history they go with the current prompt.
+  const firstUser = messages.find((m) => m.role === "user");
+  if (firstUser && imageParts.length > 0) {
+    firstUser.content = composeUserContent(imageParts, firstUser.content, capabilities.imageFirst);
+  }
+
+  // Current turn
+  const textParts = promptText ? [{ type: "text", text: promptText }] : [];
+  const currentImages = firstUser ? [] : imageParts;
+  if (textParts.length > 0 || currentImages.length > 0 || messages.length === 0) {
+    messages.push({ role: "user", content: composeUserContent(currentImages, textParts, capabilities.imageFirst) });
+  }
 
   // Base payload
-  const payload: any = {
+  let payload: VisionPayload = {
     model,
     messages,
   };
 
-  // Add thinking for BigModel
-  if ((provider === "bigmodel" || provider === "zai") && input.thinking) {
+  // Add thinking for providers that support it
+  if (capabilities.thinking && input.thinking) {
     if (typeof input.thinking === "string") {
       payload.thinking = { type: input.thinking };
     } else if (typeof input.thinking === "object" && input.thinking.type) {
@@ -200,16 +585,42 @@ export function buildVisionPayload(input: VisionInput) {
     }
   }
 
+  if (responseFormat) {
+    payload.response_format = responseFormat;
+  }
+
+  // Generation params; seed only where the provider supports it
+  for (const key of GENERATION_PARAM_KEYS) {
+    if (input[key] === undefined || (key === "seed" && !capabilities.seed)) continue;
+    payload = { ...payload, [key]: input[key] };
+  }
+
+  if (visionProvider.adaptPayload) {
+    payload = visionProvider.adaptPayload(payload, input);
+  }
+
   return { payload, provider };
 }
 
-function getDefaultModel(provider: "zai" | "bigmodel" | "openrouter"): string {
-  const envModel = Deno.env.get("DEFAULT_MODEL");
-  if (envModel) return envModel;
+function toContentParts(content: string | VisionContentPart[]): VisionContentPart[] {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+/**
+ * Combine image and text parts in provider order (ZAI docs examples put image first, then text).
+ */
+function composeUserContent(
+  images: VisionContentPart[],
+  text: VisionContentPart[],
+  imageFirst: boolean,
+): VisionContentPart[] {
+  return imageFirst ? [...images, ...text] : [...text, ...images];
+}
 
-  if (provider === "zai") return "glm-4.6v-flash";
-  if (provider === "bigmodel") return "glm-4.5v";
-  return "qwen/qwen2.5-vl-72b-instruct";
+function getDefaultModel(provider: VisionProvider): string {
+  const envModel = Deno.env.get("DEFAULT_MODEL");
+  if (envModel && provider.allowEnvDefaultModel !== false) return envModel;
+  return provider.defaultModel;
 }
 
 /**
@@ -226,22 +637,36 @@ export async function parseVisionRequest(req: Request): Promise<VisionInput> {
   if (contentType.includes("multipart/form-data")) {
     const formData = await req.formData();
     const result: any = {};
+    const files: string[] = [];
 
     for (const [key, value] of formData.entries()) {
       if (typeof value === "string") {
         result[key] = value;
       } else if (value instanceof File) {
-        // Convert File to base64
-        const buffer = await value.arrayBuffer();
-        const base64 = btoa(String.fromCharCode(...new Uint8Array(buffer)));
-        result.image_base64 = base64;
+        // Convert every File to base64, keeping form order
+        files.push(encodeBase64(new Uint8Array(await value.arrayBuffer())));
       }
     }
+    if (files.length > 0) {
+      result.image_base64 = files.length === 1 ? files[0] : files;
+    }
 
     // Parse JSON fields
     if (result.stream) {
       result.stream = result.stream.toLowerCase() !== "false";
     }
+    if (result.fallback) {
+      result.fallback = result.fallback.toLowerCase() !== "false";
+    }
+    for (const field of ["response_format", "json_schema", "messages"]) {
+      if (typeof result[field] === "string") {
+        try {
+          result[field] = JSON.parse(result[field]);
+        } catch {
+          // Leave as string; rejected by validation
+        }
+      }
+    }
     if (result.images && typeof result.images === "string") {
       try {
         result.images = JSON.parse(result.images);
@@ -0,0 +1,54 @@
+/**
+ * Vision provider registry.
+ * Built-in and env-configured OpenAI-compatible providers are registered on import;
+ * additional providers can be registered at startup with `registerProvider`.
+ */
+
+import type { ProviderName, VisionProvider } from "./types.ts";
+import { zaiProvider } from "./zai.ts";
+import { bigModelProvider } from "./bigmodel.ts";
+import { openRouterProvider } from "./openrouter.ts";
+import { createOpenAICompatProvider, loadOpenAICompatConfigs } from "./openai_compat.ts";
+import { logError } from "../utils/logging.ts";
+
+export const DEFAULT_PROVIDER: ProviderName = "zai";
+
+const providers = new Map<ProviderName, VisionProvider>();
+
+/**
+ * Register a provider. Replaces an existing provider with the same name.
+ */
+export function registerProvider(provider: VisionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get a registered provider by name.
+ */
+export function getProvider(name: ProviderName): VisionProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * List all registered providers in registration order.
+ */
+export function listProviders(): VisionProvider[] {
+  return Array.from(providers.values());
+}
+
+registerProvider(zaiProvider);
+registerProvider(bigModelProvider);
+registerProvider(openRouterProvider);
+
+// Instances are registered one by one: an invalid instance is logged and skipped
+for (const config of loadOpenAICompatConfigs()) {
+  if (config instanceof Error) {
+    logError({ component: "providers", error: `Invalid OpenAI-compatible provider config: ${config.message}` });
+    continue;
+  }
+  try {
+    registerProvider(createOpenAICompatProvider(config));
+  } catch (error) {
+    logError({ component: "providers", provider: config.name, error: `Failed to register provider: ${String(error)}` });
+  }
+}
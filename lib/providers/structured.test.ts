@@ -0,0 +1,135 @@
+/**
+ * Tests for structured JSON output.
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { callWithStructuredOutput, getStructuredSpec, parseStructuredOutput, SchemaMismatchError } from "./structured.ts";
+import type { StructuredSpec } from "./structured.ts";
+import { buildVisionPayload } from "./payload.ts";
+import type { VisionInput } from "./payload.ts";
+
+const RECEIPT_SCHEMA = {
+  type: "object",
+  properties: {
+    total: { type: "number", minimum: 0 },
+    currency: { type: "string", enum: ["USD", "EUR"] },
+    items: { type: "array", items: { type: "string" } },
+  },
+  required: ["total", "currency"],
+  additionalProperties: false,
+};
+
+const SPEC: StructuredSpec = { mode: "json_schema", name: "receipt", schema: RECEIPT_SCHEMA };
+
+function completion(content: string): Response {
+  return Response.json({ choices: [{ message: { role: "assistant", content } }] });
+}
+
+Deno.test("parseStructuredOutput - accepts fenced JSON matching the schema", () => {
+  const result = parseStructuredOutput('```json\n{"total": 12.5, "currency": "EUR", "items": ["tea"]}\n```', SPEC);
+  assertEquals(result, { ok: true, value: { total: 12.5, currency: "EUR", items: ["tea"] } });
+});
+
+Deno.test("parseStructuredOutput - reports schema errors", () => {
+  const result = parseStructuredOutput('{"total": -1, "currency": "RUB", "note": "x", "items": [1]}', SPEC);
+  assertEquals(result, {
+    ok: false,
+    errors: [
+      "$.total: must be >= 0",
+      '$.currency: must be one of ["USD","EUR"]',
+      "$: unexpected property 'note'",
+      "$.items[0]: expected string, got integer",
+    ],
+  });
+  assertEquals(parseStructuredOutput("not json", SPEC).ok, false);
+});
+
+Deno.test("buildVisionPayload - json_schema forwarded or injected into the prompt", () => {
+  const input: VisionInput = { prompt: "Parse receipt", json_schema: RECEIPT_SCHEMA };
+
+  const openrouter = buildVisionPayload({ ...input, provider: "openrouter" }).payload;
+  assertEquals(openrouter.response_format?.type, "json_schema");
+  assertEquals(openrouter.messages[0].content[0].text, "Parse receipt");
+
+  const zai = buildVisionPayload({ ...input, provider: "zai" }).payload;
+  assertEquals(zai.response_format, { type: "json_object" });
+  assertEquals(zai.messages[0].content[0].text?.includes(JSON.stringify(RECEIPT_SCHEMA)), true);
+});
+
+Deno.test("getStructuredSpec - rejects unknown response_format type", () => {
+  const result = getStructuredSpec({ response_format: { type: "xml" } as unknown as VisionInput["response_format"] });
+  assertEquals(result.ok, false);
+});
+
+Deno.test("getStructuredSpec - rejects invalid patterns before any provider call", () => {
+  const schema = { type: "object", properties: { codes: { type: "array", items: { type: "string", pattern: "[a-" } } } };
+  assertEquals(getStructuredSpec({ json_schema: schema }), {
+    ok: false,
+    message: 'Invalid JSON schema: $.codes[]: invalid pattern "[a-"',
+  });
+  assertEquals(getStructuredSpec({ json_schema: { type: "string", pattern: "^[A-Z]{3}$" } }).ok, true);
+});
+
+Deno.test("getStructuredSpec - rejects schemas with malformed keywords instead of crashing", () => {
+  const spec = (schema: unknown) => getStructuredSpec({ json_schema: schema as VisionInput["json_schema"] });
+  assertEquals(spec({ anyOf: {} }), { ok: false, message: "Invalid JSON schema: $.anyOf: must be an array of schemas" });
+  assertEquals(spec({ type: "object", properties: { total: 5 } }), {
+    ok: false,
+    message: "Invalid JSON schema: $.total: schema must be an object",
+  });
+  assertEquals(spec({ type: "object", required: "total" }), {
+    ok: false,
+    message: "Invalid JSON schema: $.required: must be an array of strings",
+  });
+});
+
+Deno.test("parseStructuredOutput - ignores prototype keys when matching properties", () => {
+  const spec: StructuredSpec = {
+    mode: "json_schema",
+    name: "plain",
+    schema: { type: "object", properties: { name: { type: "string" } }, required: ["toString"], additionalProperties: false },
+  };
+  assertEquals(parseStructuredOutput('{"name": "x", "constructor": 1}', spec), {
+    ok: false,
+    errors: ["$: missing required property 'toString'", "$: unexpected property 'constructor'"],
+  });
+});
+
+Deno.test("buildVisionPayload - forwards the client's strict flag only", () => {
+  const strictFormat = (strict?: boolean) =>
+    buildVisionPayload({
+      provider: "openrouter",
+      prompt: "Parse",
+      response_format: { type: "json_schema", json_schema: { name: "receipt", schema: RECEIPT_SCHEMA, strict } },
+    }).payload.response_format;
+  assertEquals(strictFormat(false), { type: "json_schema", json_schema: { name: "receipt", schema: RECEIPT_SCHEMA, strict: false } });
+  assertEquals(strictFormat(), { type: "json_schema", json_schema: { name: "receipt", schema: RECEIPT_SCHEMA } });
+});
+
+Deno.test("callWithStructuredOutput - repairs invalid output, then gives up", async () => {
+  const prompts: Array<string | undefined> = [];
+  const outputs = ['{"total": "12"}', '{"total": 12, "currency": "USD"}'];
+  const call = (input: VisionInput) => {
+    prompts.push(input.prompt);
+    return Promise.resolve({ response: completion(outputs.shift()!), provider: "zai", model: "m", attempts: [] });
+  };
+
+  let completions = 0;
+  const onCompletion = () => {
+    completions++;
+    return Promise.resolve();
+  };
+
+  const result = await callWithStructuredOutput({ prompt: "Parse", schema_retries: 1 }, SPEC, call, onCompletion);
+  assertEquals(result.value, { total: 12, currency: "USD" });
+  assertEquals(result.repairs, 1);
+  assertEquals(prompts[1]?.includes("Previous answer:\n{\"total\": \"12\"}"), true);
+  assertEquals(completions, 2);
+
+  const error = await assertRejects(() =>
+    callWithStructuredOutput({ prompt: "Parse", schema_retries: 0 }, SPEC, () =>
+      Promise.resolve({ response: completion("nope"), provider: "zai", model: "m", attempts: [] }), onCompletion)
+  );
+  assertEquals(error instanceof SchemaMismatchError, true);
+  assertEquals(completions, 3);
+});
@@ -0,0 +1,164 @@
+/**
+ * Structured (JSON) output for vision requests.
+ * Forwards `response_format` to providers that support it, otherwise injects
+ * instructions into the prompt, then validates the model output server-side
+ * and re-asks the model to repair invalid output.
+ *
+ * Config (env):
+ * - SCHEMA_REPAIR_RETRIES: default number of repair retries (default 1, max 3)
+ */
+
+import { findSchemaError, validateJsonSchema } from "../utils/json_schema.ts";
+import type { JsonSchema } from "../utils/json_schema.ts";
+import type { FailoverResult } from "./failover.ts";
+import { contentToText, stripBoxMarkers } from "./normalize.ts";
+import type { VisionInput } from "./payload.ts";
+
+const MAX_REPAIR_RETRIES = 3;
+
+export interface StructuredSpec {
+  mode: "json_object" | "json_schema";
+  name: string;
+  schema?: JsonSchema;
+  /** `response_format.json_schema.strict` as sent by the client */
+  strict?: boolean;
+}
+
+export type StructuredSpecResult =
+  | { ok: true; spec: StructuredSpec | null }
+  | { ok: false; message: string };
+
+/**
+ * Thrown when the model output still does not match the schema after all repair retries.
+ */
+export class SchemaMismatchError extends Error {
+  constructor(readonly errors: string[], readonly output: string, readonly repairs: number) {
+    super("Model output does not match the requested JSON schema");
+    this.name = "SchemaMismatchError";
+  }
+}
+
+/**
+ * Resolve structured output settings from `response_format` or the `json_schema` shorthand.
+ */
+export function getStructuredSpec(input: VisionInput): StructuredSpecResult {
+  const result = resolveStructuredSpec(input);
+  if (result.ok && result.spec?.schema) {
+    const schemaError = findSchemaError(result.spec.schema);
+    if (schemaError) return { ok: false, message: `Invalid JSON schema: ${schemaError}` };
+  }
+  return result;
+}
+
+function resolveStructuredSpec(input: VisionInput): StructuredSpecResult {
+  if (input.json_schema !== undefined) {
+    if (!input.json_schema || typeof input.json_schema !== "object") {
+      return { ok: false, message: "json_schema must be a JSON Schema object" };
+    }
+    return { ok: true, spec: { mode: "json_schema", name: "response", schema: input.json_schema } };
+  }
+
+  const format = input.response_format;
+  if (format === undefined) return { ok: true, spec: null };
+  if (!format || typeof format !== "object") {
+    return { ok: false, message: "response_format must be an object" };
+  }
+  if (format.type === "text") return { ok: true, spec: null };
+  if (format.type === "json_object") return { ok: true, spec: { mode: "json_object", name: "response" } };
+  if (format.type === "json_schema") {
+    const schema = format.json_schema?.schema;
+    if (!schema || typeof schema !== "object") {
+      return { ok: false, message: "response_format.json_schema.schema is required" };
+    }
+    const strict = typeof format.json_schema.strict === "boolean" ? format.json_schema.strict : undefined;
+    return { ok: true, spec: { mode: "json_schema", name: format.json_schema.name || "response", schema, strict } };
+  }
+  return { ok: false, message: "response_format.type must be 'text', 'json_object' or 'json_schema'" };
+}
+
+/**
+ * Prompt instructions for providers without native schema support.
+ */
+export function buildJsonInstruction(spec: StructuredSpec): string {
+  if (!spec.schema) {
+    return "Respond only with a valid JSON object, without markdown or any other text.";
+  }
+  return "Respond only with a valid JSON value matching this JSON Schema, without markdown or any other text:\n" +
+    JSON.stringify(spec.schema);
+}
+
+/**
+ * Parse and validate model output text.
+ */
+export function parseStructuredOutput(
+  text: string,
+  spec: StructuredSpec,
+): { ok: true; value: unknown } | { ok: false; errors: string[] } {
+  let cleaned = stripBoxMarkers(text).trim();
+  const fenced = cleaned.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fenced) cleaned = fenced[1];
+
+  let value: unknown;
+  try {
+    value = JSON.parse(cleaned);
+  } catch (error) {
+    return { ok: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  if (!spec.schema) {
+    return value !== null && typeof value === "object" && !Array.isArray(value)
+      ? { ok: true, value }
+      : { ok: false, errors: ["$: expected a JSON object"] };
+  }
+
+  const errors = validateJsonSchema(value, spec.schema);
+  return errors.length === 0 ? { ok: true, value } : { ok: false, errors };
+}
+
+function getRepairRetries(input: VisionInput): number {
+  const fromEnv = Number(Deno.env.get("SCHEMA_REPAIR_RETRIES"));
+  const requested = input.schema_retries ?? (Number.isFinite(fromEnv) ? fromEnv : 1);
+  return Math.max(0, Math.min(MAX_REPAIR_RETRIES, Math.floor(requested)));
+}
+
+function buildRepairPrompt(prompt: string | undefined, output: string, errors: string[]): string {
+  return [
+    prompt ?? "",
+    "Your previous answer did not match the required JSON format.",
+    `Previous answer:\n${output}`,
+    `Errors:\n${errors.map((e) => `- ${e}`).join("\n")}`,
+    "Return only the corrected JSON.",
+  ].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Call the provider (non-streaming) and validate the output,
+ * repairing it up to the configured number of retries.
+ * `onCompletion` sees every upstream completion, including repairs and the last one of a mismatch.
+ */
+export async function callWithStructuredOutput(
+  input: VisionInput,
+  spec: StructuredSpec,
+  call: (input: VisionInput) => Promise<FailoverResult>,
+  onCompletion?: (result: FailoverResult, data: unknown) => Promise<void>,
+): Promise<{ result: FailoverResult; data: unknown; value: unknown; repairs: number }> {
+  const retries = getRepairRetries(input);
+  let attemptInput = input;
+
+  for (let repairs = 0;; repairs++) {
+    const result = await call(attemptInput);
+    const data = await result.response.json();
+    if (onCompletion) await onCompletion(result, data);
+    const message = (data?.choices?.[0]?.message ?? {}) as Record<string, unknown>;
+    const output = contentToText(message.content);
+
+    const parsed = parseStructuredOutput(output, spec);
+    if (parsed.ok) {
+      return { result, data, value: parsed.value, repairs };
+    }
+    if (repairs >= retries) {
+      throw new SchemaMismatchError(parsed.errors, output, repairs);
+    }
+    attemptInput = { ...input, prompt: buildRepairPrompt(input.prompt, output, parsed.errors) };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Shared types for vision providers.
+ */
+
+import type { VisionInput } from "./payload.ts";
+import type { JsonSchema } from "../utils/json_schema.ts";
+import type { ImageLimits } from "../utils/image.ts";
+
+/**
+ * Provider identifier as registered in the provider registry.
+ */
+export type ProviderName = string;
+
+/**
+ * Single content item of an OpenAI-compatible chat message.
+ */
+export interface VisionContentPart {
+  type: string;
+  text?: string;
+  image_url?: { url: string; detail?: string };
+}
+
+export interface VisionMessage {
+  role: string;
+  content: VisionContentPart[];
+}
+
+/**
+ * OpenAI-style response_format.
+ */
+export type ResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | { type: "json_schema"; json_schema: { name?: string; schema: JsonSchema; strict?: boolean } };
+
+/**
+ * Sampling and generation parameters (OpenAI naming).
+ */
+export interface GenerationParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  seed?: number;
+}
+
+/**
+ * OpenAI-compatible chat completion payload sent to providers.
+ */
+export interface VisionPayload extends GenerationParams {
+  model: string;
+  messages: VisionMessage[];
+  stream?: boolean;
+  thinking?: { type: "enabled" | "disabled" };
+  response_format?: ResponseFormat;
+}
+
+/**
+ * Per-call options passed to provider clients.
+ */
+export interface ProviderCallOptions {
+  /** Aborts the upstream request (used for per-attempt timeouts) */
+  signal?: AbortSignal;
+}
+
+/**
+ * What a provider accepts in the vision payload.
+ */
+export interface ProviderCapabilities {
+  /** Supports the `thinking` parameter */
+  thinking: boolean;
+  /** Supports `image_url.detail` */
+  detail: boolean;
+  /** Accepts more than one image per request */
+  multiImage: boolean;
+  /** Expects image content before the text prompt */
+  imageFirst: boolean;
+  /** Supports `response_format: { type: "json_object" }` */
+  jsonObject: boolean;
+  /** Supports `response_format: { type: "json_schema" }` */
+  jsonSchema: boolean;
+  /** Supports the `seed` parameter */
+  seed: boolean;
+}
+
+/**
+ * Generation param limits narrower than the generic validation.
+ */
+export interface GenerationParamLimits {
+  /** Highest accepted temperature */
+  maxTemperature: number;
+  /** Most stop sequences per request */
+  maxStop: number;
+}
+
+/**
+ * Vision provider registered in the provider registry.
+ */
+export interface VisionProvider {
+  name: ProviderName;
+  /** Model used when neither the request nor DEFAULT_MODEL sets one */
+  defaultModel: string;
+  /** Whether DEFAULT_MODEL may override defaultModel (default: true) */
+  allowEnvDefaultModel?: boolean;
+  capabilities: ProviderCapabilities;
+  /** Per-image size limits used by the resize pipeline (default: ZAI limits) */
+  imageLimits?: ImageLimits;
+  /** Requests beyond these limits are rejected when the provider is requested (or the default) */
+  paramLimits?: GenerationParamLimits;
+  /** Optional hook to adjust the generic payload for provider quirks */
+  adaptPayload?: (payload: VisionPayload, input: VisionInput) => VisionPayload;
+  call: (payload: VisionPayload, stream: boolean, opts?: ProviderCallOptions) => Promise<Response>;
+}
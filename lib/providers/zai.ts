@@ -3,6 +3,11 @@
  * Docs: https://docs.z.ai/guides/vlm/glm-4.6v#glm-4-6v-flash
  */
 
+import { UpstreamError } from "../utils/errors.ts";
+import { DEFAULT_IMAGE_LIMITS } from "../utils/image.ts";
+import { logWarn } from "../utils/logging.ts";
+import type { GenerationParamLimits, ProviderCallOptions, VisionPayload, VisionProvider } from "./types.ts";
+
 export interface ZaiPayload {
   model: string;
   messages: Array<{
@@ -14,12 +19,42 @@ export interface ZaiPayload {
     }>;
   }>;
   stream?: boolean;
+  /** OpenAI-style usage reporting in streams (GLM sends usage in the last chunk unasked) */
+  stream_options?: { include_usage: boolean };
   thinking?: { type: "enabled" | "disabled" };
 }
 
+/**
+ * GLM sampling limits (ZAI and BigModel): temperature is capped at 1
+ * and only a single stop word is supported.
+ */
+export const GLM_PARAM_LIMITS: GenerationParamLimits = { maxTemperature: 1, maxStop: 1 };
+
+/**
+ * Requests for a GLM provider are rejected beyond GLM_PARAM_LIMITS; payloads that still exceed
+ * them (failover from another provider, KV prompt defaults) are clamped and the change is logged.
+ */
+export function adaptGlmPayload(payload: VisionPayload): VisionPayload {
+  const adapted = { ...payload };
+  const adjusted: Record<string, unknown> = {};
+  if (adapted.temperature !== undefined && adapted.temperature > GLM_PARAM_LIMITS.maxTemperature) {
+    adjusted.temperature = { from: adapted.temperature, to: GLM_PARAM_LIMITS.maxTemperature };
+    adapted.temperature = GLM_PARAM_LIMITS.maxTemperature;
+  }
+  if (Array.isArray(adapted.stop) && adapted.stop.length > GLM_PARAM_LIMITS.maxStop) {
+    adjusted.stop = { dropped: adapted.stop.slice(GLM_PARAM_LIMITS.maxStop) };
+    adapted.stop = adapted.stop.slice(0, GLM_PARAM_LIMITS.maxStop);
+  }
+  if (Object.keys(adjusted).length > 0) {
+    logWarn({ component: "providers", model: payload.model, params_adjusted: adjusted });
+  }
+  return adapted;
+}
+
 export async function callZai(
   payload: ZaiPayload,
   stream = false,
+  opts: ProviderCallOptions = {},
 ): Promise<Response> {
   const apiKey = Deno.env.get("ZAI_API_KEY");
   if (!apiKey) {
@@ -40,12 +75,24 @@ export async function callZai(
       "Authorization": `Bearer ${apiKey}`,
     },
     body: JSON.stringify(body),
+    signal: opts.signal,
   });
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`ZAI API error (${response.status}): ${errorText}`);
+    throw new UpstreamError(`ZAI API error (${response.status}): ${errorText}`, response.status);
   }
 
   return response;
 }
+
+export const zaiProvider: VisionProvider = {
+  name: "zai",
+  defaultModel: "glm-4.6v-flash",
+  // ZAI docs examples put image first, then text.
+  capabilities: { thinking: true, detail: true, multiImage: true, imageFirst: true, jsonObject: true, jsonSchema: false, seed: false },
+  imageLimits: DEFAULT_IMAGE_LIMITS,
+  paramLimits: GLM_PARAM_LIMITS,
+  adaptPayload: adaptGlmPayload,
+  call: callZai,
+};
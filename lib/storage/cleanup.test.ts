@@ -0,0 +1,73 @@
+/**
+ * Tests for the retention of temporary uploads.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { cleanupTmpImages, MIN_TMP_TTL_SEC } from "./cleanup.ts";
+import { createMemoryStore } from "./local_store.ts";
+import type { ObjectStore } from "./object_store.ts";
+
+const TTL_SEC = 24 * 60 * 60;
+
+async function putTmp(store: ObjectStore, name: string, size: number): Promise<number> {
+  const key = `tmp/test-cleanup/${name}`;
+  await store.put(key, new Uint8Array(size), "image/png");
+  return Date.parse((await store.head(key))!.lastModified);
+}
+
+Deno.test("cleanupTmpImages - dry run counts expired objects without deleting", async () => {
+  const store = createMemoryStore();
+  const modified = await putTmp(store, "a.png", 3);
+  await putTmp(store, "b.png", 4);
+  await store.put("img/test-cleanup.png", new Uint8Array(5), "image/png");
+  const now = new Date(modified + 2 * TTL_SEC * 1000);
+  try {
+    const report = await cleanupTmpImages({ dryRun: true, ttlSec: TTL_SEC, now, store });
+    assertEquals(
+      { dryRun: report.dryRun, scanned: report.scanned, expired: report.expired, deleted: report.deleted, bytes: report.bytesReclaimed },
+      { dryRun: true, scanned: 2, expired: 2, deleted: 0, bytes: 7 },
+    );
+    assertEquals((await store.list({ prefix: "tmp/test-cleanup/" })).objects.length, 2);
+  } finally {
+    for (const key of ["tmp/test-cleanup/a.png", "tmp/test-cleanup/b.png", "img/test-cleanup.png"]) await store.delete(key);
+  }
+});
+
+Deno.test("cleanupTmpImages - keeps objects at the cutoff and deletes older ones", async () => {
+  const store = createMemoryStore();
+  const modified = await putTmp(store, "a.png", 3);
+  try {
+    const atCutoff = await cleanupTmpImages({ ttlSec: TTL_SEC, now: new Date(modified + TTL_SEC * 1000), store });
+    assertEquals({ expired: atCutoff.expired, cutoff: atCutoff.cutoff }, { expired: 0, cutoff: new Date(modified).toISOString() });
+
+    const after = await cleanupTmpImages({ ttlSec: TTL_SEC, now: new Date(modified + TTL_SEC * 1000 + 1), store });
+    assertEquals({ expired: after.expired, deleted: after.deleted, bytes: after.bytesReclaimed }, { expired: 1, deleted: 1, bytes: 3 });
+    assertEquals(await store.head("tmp/test-cleanup/a.png"), null);
+  } finally {
+    await store.delete("tmp/test-cleanup/a.png");
+  }
+});
+
+Deno.test("cleanupTmpImages - counts failed deletes and never goes below the minimum TTL", async () => {
+  const memory = createMemoryStore();
+  const store: ObjectStore = {
+    ...memory,
+    delete: (key) => key.endsWith("bad.png") ? Promise.reject(new Error("delete failed")) : memory.delete(key),
+  };
+  const modified = await putTmp(store, "bad.png", 2);
+  await putTmp(store, "good.png", 5);
+  try {
+    const clamped = await cleanupTmpImages({ ttlSec: 1, now: new Date(modified + 1000), store });
+    assertEquals({ ttlSec: clamped.ttlSec, expired: clamped.expired }, { ttlSec: MIN_TMP_TTL_SEC, expired: 0 });
+
+    const report = await cleanupTmpImages({ ttlSec: TTL_SEC, now: new Date(modified + 2 * TTL_SEC * 1000), store });
+    assertEquals(
+      { expired: report.expired, deleted: report.deleted, failed: report.failed, bytes: report.bytesReclaimed },
+      { expired: 2, deleted: 1, failed: 1, bytes: 5 },
+    );
+    assertEquals((await store.head("tmp/test-cleanup/bad.png"))?.size, 2);
+  } finally {
+    await memory.delete("tmp/test-cleanup/bad.png");
+    await memory.delete("tmp/test-cleanup/good.png");
+  }
+});
@@ -0,0 +1,97 @@
+/**
+ * Retention of temporary uploads: deletes stored objects under tmp/ older than the TTL
+ * together with their KV ownership records.
+ *
+ * Config (env):
+ * - IMAGE_TMP_TTL_SEC: age after which tmp/ objects are deleted (default 7 days, at least
+ *   MIN_TMP_TTL_SEC so pending presigned uploads are never removed)
+ * - IMAGE_CLEANUP_CRON: cron schedule of the cleanup job, e.g. "0 3 * * *" (unset = disabled)
+ */
+
+import { logError, logInfo } from "../utils/logging.ts";
+import { forgetImage, PENDING_UPLOAD_GRACE_MS, PRESIGN_UPLOAD_TTL_SEC } from "./images.ts";
+import { getObjectStore } from "./object_store.ts";
+import type { ObjectStore } from "./object_store.ts";
+
+const TMP_PREFIX = "tmp/";
+const DEFAULT_TTL_SEC = 7 * 24 * 60 * 60;
+
+/**
+ * Shortest allowed TTL: a presigned upload can be completed until its URL and grace period expire.
+ */
+export const MIN_TMP_TTL_SEC = PRESIGN_UPLOAD_TTL_SEC + PENDING_UPLOAD_GRACE_MS / 1000;
+
+export interface CleanupReport {
+  dryRun: boolean;
+  ttlSec: number;
+  cutoff: string; // ISO 8601; objects modified before it are expired
+  scanned: number;
+  expired: number;
+  deleted: number;
+  failed: number;
+  bytesReclaimed: number; // bytes deleted, or that would be deleted in a dry run
+  durationMs: number;
+}
+
+/**
+ * Retention TTL in seconds (IMAGE_TMP_TTL_SEC), never below MIN_TMP_TTL_SEC.
+ */
+export function getTmpTtlSec(): number {
+  const value = Number(Deno.env.get("IMAGE_TMP_TTL_SEC"));
+  return Number.isFinite(value) && value > 0 ? Math.max(MIN_TMP_TTL_SEC, Math.floor(value)) : DEFAULT_TTL_SEC;
+}
+
+/**
+ * Delete expired tmp/ objects. With `dryRun`, only counts what would be deleted.
+ * A `ttlSec` below MIN_TMP_TTL_SEC is raised to it. The report is also written to the structured log.
+ */
+export async function cleanupTmpImages(
+  opts: { dryRun?: boolean; ttlSec?: number; now?: Date; store?: ObjectStore } = {},
+): Promise<CleanupReport> {
+  const started = Date.now();
+  const store = opts.store ?? getObjectStore();
+  const dryRun = opts.dryRun ?? false;
+  const ttlSec = Math.max(MIN_TMP_TTL_SEC, opts.ttlSec ?? getTmpTtlSec());
+  const cutoff = new Date((opts.now ?? new Date()).getTime() - ttlSec * 1000);
+  const report: CleanupReport = {
+    dryRun,
+    ttlSec,
+    cutoff: cutoff.toISOString(),
+    scanned: 0,
+    expired: 0,
+    deleted: 0,
+    failed: 0,
+    bytesReclaimed: 0,
+    durationMs: 0,
+  };
+
+  let continuationToken: string | undefined;
+  do {
+    const page = await store.list({ prefix: TMP_PREFIX, continuationToken });
+    continuationToken = page.nextContinuationToken;
+
+    for (const object of page.objects) {
+      report.scanned++;
+      const modified = Date.parse(object.lastModified);
+      if (!Number.isFinite(modified) || modified >= cutoff.getTime()) continue;
+      report.expired++;
+      if (dryRun) {
+        report.bytesReclaimed += object.size;
+        continue;
+      }
+      try {
+        await store.delete(object.key);
+        await forgetImage(object.key);
+        report.deleted++;
+        report.bytesReclaimed += object.size;
+      } catch (error) {
+        report.failed++;
+        logError({ type: "image_cleanup", key: object.key, error: String(error) });
+      }
+    }
+  } while (continuationToken);
+
+  report.durationMs = Date.now() - started;
+  logInfo({ type: "image_cleanup", ...report });
+  return report;
+}
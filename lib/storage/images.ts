@@ -0,0 +1,128 @@
+/**
+ * KV index of uploaded images: owner → images for listing and access checks,
+ * object → owners for safe deletion of shared objects, and content hash → object key
+ * for deduplication, plus pending presigned uploads.
+ *
+ * Config (env):
+ * - IMAGE_DEDUP: set to 1 to deduplicate uploads by default
+ */
+
+import { ImageHashRecord, ImageListResult, ImageRecord, PendingImageUpload } from "./types.ts";
+
+const kv = await Deno.openKv();
+
+export function isImageDedupEnabledByDefault(): boolean {
+  return Deno.env.get("IMAGE_DEDUP") === "1";
+}
+
+/**
+ * Retrieves the object recorded for a content hash.
+ * Returns null if the hash has not been uploaded with dedup.
+ */
+export async function getImageByHash(sha256: string): Promise<ImageHashRecord | null> {
+  const entry = await kv.get<ImageHashRecord>(["image_hashes", sha256]);
+  return entry.value;
+}
+
+/**
+ * Records (or replaces) the object for a content hash.
+ */
+export async function recordImageHash(record: ImageHashRecord): Promise<void> {
+  await kv.set(["image_hashes", record.sha256], record);
+}
+
+/**
+ * Records an upload for its owner.
+ */
+export async function recordImageOwner(record: ImageRecord): Promise<void> {
+  await kv.atomic()
+    .set(["images_by_owner", record.ownerId, record.key], record)
+    .set(["image_owners", record.key, record.ownerId], true)
+    .commit();
+}
+
+/**
+ * Retrieves an image if it belongs to the given owner.
+ */
+export async function getOwnedImage(key: string, ownerId: string): Promise<ImageRecord | null> {
+  const entry = await kv.get<ImageRecord>(["images_by_owner", ownerId, key]);
+  return entry.value;
+}
+
+/**
+ * Lists images of an owner, ordered by key.
+ */
+export async function listOwnedImages(
+  ownerId: string,
+  opts: { limit?: number; cursor?: string } = {},
+): Promise<ImageListResult> {
+  const iter = kv.list<ImageRecord>({ prefix: ["images_by_owner", ownerId] }, { limit: opts.limit ?? 50, cursor: opts.cursor });
+  const items: ImageRecord[] = [];
+  for await (const entry of iter) {
+    items.push(entry.value);
+  }
+  // The cursor is empty once the listing is exhausted
+  return { items, cursor: iter.cursor || undefined };
+}
+
+/**
+ * Owners of an object (several when it was deduplicated).
+ */
+export async function listImageOwners(key: string): Promise<string[]> {
+  const owners: string[] = [];
+  for await (const entry of kv.list<boolean>({ prefix: ["image_owners", key] })) {
+    owners.push(entry.key[2] as string);
+  }
+  return owners;
+}
+
+/**
+ * Removes an image from its owner. With `objectDeleted`, the content hash mapping
+ * pointing at the object is removed as well.
+ */
+export async function removeImageOwner(record: ImageRecord, objectDeleted: boolean): Promise<void> {
+  const op = kv.atomic()
+    .delete(["images_by_owner", record.ownerId, record.key])
+    .delete(["image_owners", record.key, record.ownerId]);
+  if (objectDeleted && record.sha256) {
+    const hash = await getImageByHash(record.sha256);
+    if (hash?.key === record.key) op.delete(["image_hashes", record.sha256]);
+  }
+  await op.commit();
+}
+
+/**
+ * Removes all KV records of a deleted object.
+ */
+export async function forgetImage(key: string): Promise<void> {
+  const op = kv.atomic();
+  for (const ownerId of await listImageOwners(key)) {
+    op.delete(["images_by_owner", ownerId, key]).delete(["image_owners", key, ownerId]);
+  }
+  await op.commit();
+}
+
+// Lifetime of presigned upload URLs
+export const PRESIGN_UPLOAD_TTL_SEC = 15 * 60;
+// Pending uploads can still be completed for a while after the presigned URL expires
+export const PENDING_UPLOAD_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Records a presigned upload; the KV entry expires an hour after the URL.
+ */
+export async function recordPendingUpload(upload: PendingImageUpload): Promise<void> {
+  const expireIn = Date.parse(upload.expiresAt) - Date.now() + PENDING_UPLOAD_GRACE_MS;
+  await kv.set(["image_uploads", upload.key], upload, { expireIn });
+}
+
+/**
+ * Retrieves a pending upload if it belongs to the given owner.
+ */
+export async function getPendingUpload(key: string, ownerId: string): Promise<PendingImageUpload | null> {
+  const entry = await kv.get<PendingImageUpload>(["image_uploads", key]);
+  return entry.value && entry.value.ownerId === ownerId ? entry.value : null;
+}
+
+export async function deletePendingUpload(key: string): Promise<void> {
+  await kv.delete(["image_uploads", key]);
+}
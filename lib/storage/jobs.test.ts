@@ -0,0 +1,57 @@
+/**
+ * Tests for asynchronous vision jobs.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createVisionJob, getVisionJob, getVisionJobInput, runVisionJob } from "./jobs.ts";
+import type { VisionJobRun } from "./jobs.ts";
+import type { VisionInput } from "../providers/payload.ts";
+
+const INPUT: VisionInput = { prompt: "Describe", image_url: "https://example.com/a.png", stream: false };
+
+function countingRun(outcome: VisionJobRun) {
+  const calls: VisionInput[] = [];
+  const run = (input: VisionInput) => {
+    calls.push(input);
+    return Promise.resolve(outcome);
+  };
+  return { calls, run };
+}
+
+Deno.test("runVisionJob - a created job is processed and its status reflects the result", async () => {
+  const job = await createVisionJob(INPUT, "auth0|jobs-test");
+  assertEquals((await getVisionJob(job.id, "auth0|jobs-test"))?.status, "queued");
+
+  const { calls, run } = countingRun({ ok: true, result: { text: "A cat" }, provider: "zai", model: "glm-4.6v-flash" });
+  const updated = await runVisionJob(job.id, run);
+  assertEquals(calls, [INPUT]);
+  assertEquals(
+    { status: updated?.status, result: updated?.result, provider: updated?.provider },
+    { status: "succeeded", result: { text: "A cat" }, provider: "zai" },
+  );
+  assertEquals((await getVisionJob(job.id, "auth0|jobs-test"))?.status, "succeeded");
+  assertEquals(await getVisionJobInput(job.id), null);
+});
+
+Deno.test("runVisionJob - redelivered messages for finished jobs do nothing", async () => {
+  const job = await createVisionJob(INPUT, "auth0|jobs-test");
+  const { calls, run } = countingRun({ ok: false, error: { code: "UPSTREAM_ERROR", message: "boom", status: 502 } });
+  assertEquals((await runVisionJob(job.id, run))?.status, "failed");
+  assertEquals(await runVisionJob(job.id, run), null);
+  assertEquals(calls.length, 1);
+  assertEquals((await getVisionJob(job.id, null))?.error?.code, "UPSTREAM_ERROR");
+});
+
+Deno.test("runVisionJob - results too large for KV fail the job with JOB_RESULT_TOO_LARGE", async () => {
+  const job = await createVisionJob(INPUT, "auth0|jobs-test");
+  const { run } = countingRun({ ok: true, result: { text: "x".repeat(64 * 1024) } });
+  const updated = await runVisionJob(job.id, run);
+  assertEquals({ status: updated?.status, code: updated?.error?.code }, { status: "failed", code: "JOB_RESULT_TOO_LARGE" });
+  assertEquals(updated?.result, undefined);
+});
+
+Deno.test("getVisionJob - jobs are only visible to their owner", async () => {
+  const job = await createVisionJob(INPUT, "auth0|jobs-owner");
+  assertEquals((await getVisionJob(job.id, "auth0|jobs-owner"))?.id, job.id);
+  assertEquals(await getVisionJob(job.id, "anonymous"), null);
+});
@@ -0,0 +1,192 @@
+/**
+ * Asynchronous vision jobs in Deno KV. The request input is stored next to the job and the
+ * work is handed to the KV queue (`enqueue`/`listenQueue`); webhook retries go through the
+ * same queue with a delay.
+ *
+ * Config (env):
+ * - VISION_JOB_TTL_SEC: how long jobs and their results are kept (default 86400)
+ * - WEBHOOK_MAX_ATTEMPTS: webhook delivery attempts before giving up (default 5)
+ */
+
+import { ulid } from "@std/ulid";
+import type { VisionInput } from "../providers/payload.ts";
+import type { VisionJob } from "./types.ts";
+
+const kv = await Deno.openKv();
+
+const DEFAULT_TTL_SEC = 24 * 60 * 60;
+const DEFAULT_WEBHOOK_ATTEMPTS = 5;
+// Deno KV values are limited to 64 KiB; keep headroom for serialization overhead.
+const MAX_ENTRY_BYTES = 60 * 1024;
+
+export type JobQueueMessage =
+  | { type: "vision_job"; id: string }
+  | { type: "vision_webhook"; id: string; attempt: number };
+
+/**
+ * Outcome of running a job input through the vision pipeline.
+ */
+export type VisionJobRun =
+  | { ok: true; result: unknown; provider?: string; model?: string }
+  | { ok: false; error: { code: string; message: string; status: number } };
+
+/**
+ * Thrown when a job input or result would exceed the KV value size limit.
+ */
+export class JobTooLargeError extends Error {
+  constructor(what: "input" | "result") {
+    super(
+      what === "input"
+        ? "Job request is too large; use image URLs or uploaded images instead of inline images"
+        : "Job result is too large to store",
+    );
+    this.name = "JobTooLargeError";
+  }
+}
+
+export function getVisionJobTtlSec(): number {
+  const value = Number(Deno.env.get("VISION_JOB_TTL_SEC"));
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : DEFAULT_TTL_SEC;
+}
+
+export function getWebhookMaxAttempts(): number {
+  const value = Number(Deno.env.get("WEBHOOK_MAX_ATTEMPTS"));
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : DEFAULT_WEBHOOK_ATTEMPTS;
+}
+
+function fitsEntry(value: unknown): boolean {
+  return new TextEncoder().encode(JSON.stringify(value)).length <= MAX_ENTRY_BYTES;
+}
+
+function isJobQueueMessage(value: unknown): value is JobQueueMessage {
+  const msg = value as JobQueueMessage | null;
+  return typeof msg?.id === "string" && (msg.type === "vision_job" || msg.type === "vision_webhook");
+}
+
+/**
+ * Stores a queued job with its input and enqueues it for processing.
+ */
+export async function createVisionJob(input: VisionInput, userId: string, callbackUrl?: string): Promise<VisionJob> {
+  if (!fitsEntry(input)) throw new JobTooLargeError("input");
+
+  const ttlSec = getVisionJobTtlSec();
+  const now = new Date();
+  const job: VisionJob = {
+    id: ulid(),
+    userId,
+    status: "queued",
+    callbackUrl,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlSec * 1000).toISOString(),
+  };
+  const message: JobQueueMessage = { type: "vision_job", id: job.id };
+
+  const res = await kv.atomic()
+    .set(["vision_jobs", job.id], job, { expireIn: ttlSec * 1000 })
+    .set(["vision_job_inputs", job.id], input, { expireIn: ttlSec * 1000 })
+    .enqueue(message)
+    .commit();
+  if (!res.ok) throw new Error("Failed to create vision job");
+  return job;
+}
+
+/**
+ * Retrieves a job by ID. Jobs of other owners are reported as missing; `null` skips the owner
+ * check (queue worker).
+ */
+export async function getVisionJob(id: string, userId: string | null): Promise<VisionJob | null> {
+  const job = (await kv.get<VisionJob>(["vision_jobs", id])).value;
+  if (!job) return null;
+  if (job.expiresAt <= new Date().toISOString()) return null;
+  if (userId !== null && job.userId !== userId) return null;
+  return job;
+}
+
+export async function getVisionJobInput(id: string): Promise<VisionInput | null> {
+  return (await kv.get<VisionInput>(["vision_job_inputs", id])).value;
+}
+
+export async function deleteVisionJobInput(id: string): Promise<void> {
+  await kv.delete(["vision_job_inputs", id]);
+}
+
+/**
+ * Applies `patch` to a job, keeping its original expiry.
+ *
+ * @returns The updated job, or null if it no longer exists.
+ * @throws JobTooLargeError if the updated job does not fit in KV.
+ */
+export async function updateVisionJob(id: string, patch: Partial<VisionJob>): Promise<VisionJob | null> {
+  const key = ["vision_jobs", id];
+  const entry = await kv.get<VisionJob>(key);
+  if (!entry.value) return null;
+
+  const updated: VisionJob = { ...entry.value, ...patch, updatedAt: new Date().toISOString() };
+  if (!fitsEntry(updated)) throw new JobTooLargeError("result");
+  const expireIn = Math.max(1000, new Date(updated.expiresAt).getTime() - Date.now());
+
+  const res = await kv.atomic().check(entry).set(key, updated, { expireIn }).commit();
+  if (!res.ok) throw new Error("Failed to update vision job: The job was modified concurrently.");
+  return updated;
+}
+
+/**
+ * Runs a queued job with `run` and stores the outcome, then drops the stored input.
+ * A result too large for KV fails the job with JOB_RESULT_TOO_LARGE instead.
+ *
+ * @returns The finished job, or null when there was nothing to do (missing job, or a redelivered
+ * message for a finished one).
+ */
+export async function runVisionJob(
+  id: string,
+  run: (input: VisionInput, job: VisionJob) => Promise<VisionJobRun>,
+): Promise<VisionJob | null> {
+  const job = await getVisionJob(id, null);
+  if (!job || job.status === "succeeded" || job.status === "failed") return null;
+
+  const input = await getVisionJobInput(id);
+  const completedAt = () => new Date().toISOString();
+  let patch: Partial<VisionJob>;
+  if (!input) {
+    patch = {
+      status: "failed",
+      error: { code: "JOB_INPUT_MISSING", message: "Job input is no longer available", status: 500 },
+      completedAt: completedAt(),
+    };
+  } else {
+    await updateVisionJob(id, { status: "running", startedAt: new Date().toISOString() });
+    const outcome = await run(input, job);
+    patch = outcome.ok
+      ? { status: "succeeded", result: outcome.result, provider: outcome.provider, model: outcome.model, completedAt: completedAt() }
+      : { status: "failed", error: outcome.error, completedAt: completedAt() };
+  }
+
+  let updated: VisionJob | null;
+  try {
+    updated = await updateVisionJob(id, patch);
+  } catch (error) {
+    if (!(error instanceof JobTooLargeError)) throw error;
+    updated = await updateVisionJob(id, {
+      status: "failed",
+      error: { code: "JOB_RESULT_TOO_LARGE", message: error.message, status: 500 },
+      completedAt: completedAt(),
+    });
+  }
+  await deleteVisionJobInput(id);
+  return updated;
+}
+
+export async function enqueueJobMessage(message: JobQueueMessage, delayMs = 0): Promise<void> {
+  await kv.enqueue(message, delayMs > 0 ? { delay: delayMs } : undefined);
+}
+
+/**
+ * Registers the queue handler. Messages from other producers are ignored.
+ * A handler that throws makes KV redeliver the message.
+ */
+export function listenJobQueue(handler: (message: JobQueueMessage) => Promise<void>): Promise<void> {
+  return kv.listenQueue(async (message: unknown) => {
+    if (isJobQueueMessage(message)) await handler(message);
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for the local object stores and their presigned URLs.
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createMemoryStore, verifyLocalObjectUrl } from "./local_store.ts";
+import { ObjectTooLargeError } from "./object_store.ts";
+
+Deno.test("createMemoryStore - put, head, range, list and delete", async () => {
+  const store = createMemoryStore();
+  for (const name of ["b", "a", "c"]) {
+    await store.put(`test-memory/${name}.png`, new Uint8Array([1, 2, 3, 4]), "image/png");
+  }
+  await store.put("other/x.png", new Uint8Array([1]), "image/png");
+
+  const head = await store.head("test-memory/a.png");
+  assertEquals(head && { size: head.size, contentType: head.contentType }, { size: 4, contentType: "image/png" });
+  assertEquals(await store.getRange("test-memory/a.png", 1, 2), new Uint8Array([2, 3]));
+  assertEquals(await store.getRange("test-memory/missing.png", 0, 1), null);
+
+  const first = await store.list({ prefix: "test-memory/", maxKeys: 2 });
+  assertEquals(first.objects.map((o) => o.key), ["test-memory/a.png", "test-memory/b.png"]);
+  const second = await store.list({ prefix: "test-memory/", maxKeys: 2, continuationToken: first.nextContinuationToken });
+  assertEquals(second.objects.map((o) => o.key), ["test-memory/c.png"]);
+  assertEquals(second.nextContinuationToken, undefined);
+
+  await store.delete("test-memory/a.png");
+  await store.delete("test-memory/a.png");
+  assertEquals(await store.head("test-memory/a.png"), null);
+  await assertRejects(() => store.put("../escape.png", new Uint8Array([1]), "image/png"));
+});
+
+Deno.test("verifyLocalObjectUrl - checks signature, method, constraints and expiry", async () => {
+  const store = createMemoryStore();
+  const { url } = await store.presignPut("tmp/a.png", 60, { contentType: "image/png", contentLength: 10 });
+  const params = new URL(url).searchParams;
+  assertEquals(new URL(url).pathname, "/local-objects/tmp/a.png");
+
+  assertEquals(await verifyLocalObjectUrl("PUT", "tmp/a.png", params), { ok: true, contentType: "image/png", contentLength: 10 });
+  assertEquals((await verifyLocalObjectUrl("GET", "tmp/a.png", params)).ok, false);
+  assertEquals((await verifyLocalObjectUrl("PUT", "tmp/b.png", params)).ok, false);
+
+  const tampered = new URLSearchParams(params);
+  tampered.set("content_length", "999999");
+  assertEquals((await verifyLocalObjectUrl("PUT", "tmp/a.png", tampered)).ok, false);
+
+  const later = new Date(Date.now() + 120_000);
+  assertEquals(await verifyLocalObjectUrl("PUT", "tmp/a.png", params, later), { ok: false, message: "URL expired" });
+});
+
+Deno.test("createMemoryStore putStream - stores the stream and enforces maxBytes", async () => {
+  const store = createMemoryStore();
+  const stream = (parts: number[][]) => ReadableStream.from(parts.map((part) => new Uint8Array(part)));
+  assertEquals(await store.putStream("test-stream/a.bin", stream([[1, 2], [3]]), "application/octet-stream"), {
+    key: "test-stream/a.bin",
+    etag: (await store.head("test-stream/a.bin"))?.etag,
+    size: 3,
+  });
+  assertEquals(await store.getRange("test-stream/a.bin", 0, 2), new Uint8Array([1, 2, 3]));
+
+  const error = await store.putStream("test-stream/b.bin", stream([[1, 2], [3, 4]]), "application/octet-stream", { maxBytes: 3 })
+    .catch((e) => e);
+  assertEquals(error instanceof ObjectTooLargeError, true);
+  assertEquals(await store.head("test-stream/b.bin"), null);
+});
@@ -0,0 +1,254 @@
+/**
+ * Local ObjectStores for development and tests: an in-memory map or a directory on disk.
+ * Presigned URLs point at this server (/local-objects/<key>) and carry an HMAC signature
+ * over the method, key, expiry and PUT constraints.
+ *
+ * Config (env):
+ * - LOCAL_STORE_DIR: directory for OBJECT_STORE=fs (default .data/objects; needs --allow-write)
+ * - LOCAL_STORE_BASE_URL: origin used in presigned URLs (default http://localhost:8000)
+ * - LOCAL_STORE_SECRET: signing key for presigned URLs (default: random per process)
+ */
+
+import { hmacSha256, sha256Hex, toHex } from "../utils/hash.ts";
+import { readStreamParts } from "./object_store.ts";
+import type { ObjectListPage, ObjectStore, PresignedUrl, StoredObject } from "./object_store.ts";
+
+type LocalObject = { body: Uint8Array; meta: StoredObject };
+
+/** Backing operations shared by the memory and filesystem stores */
+type LocalBackend = {
+  read(key: string): Promise<LocalObject | null>;
+  write(key: string, object: LocalObject): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+};
+
+export const LOCAL_OBJECT_PATH_PREFIX = "/local-objects/";
+
+const MAX_PRESIGN_EXPIRES_SEC = 604800;
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+
+// Shared by every memory store in the process so uploads survive between requests
+const memoryObjects = new Map<string, LocalObject>();
+
+let processSecret: Uint8Array | undefined;
+
+function getSigningSecret(): Uint8Array {
+  const configured = Deno.env.get("LOCAL_STORE_SECRET")?.trim();
+  if (configured) return new TextEncoder().encode(configured);
+  processSecret ??= crypto.getRandomValues(new Uint8Array(32));
+  return processSecret;
+}
+
+function getBaseUrl(): string {
+  return (Deno.env.get("LOCAL_STORE_BASE_URL")?.trim() || "http://localhost:8000").replace(/\/+$/, "");
+}
+
+function encodePath(path: string): string {
+  return path.split("/").map((seg) => encodeURIComponent(seg)).join("/");
+}
+
+/**
+ * Reject keys that could escape the store directory.
+ */
+function assertValidKey(key: string): void {
+  const segments = key.split("/");
+  if (!key || key.startsWith("/") || segments.some((s) => s === "" || s === "." || s === "..")) {
+    throw new Error(`Invalid object key '${key}'`);
+  }
+}
+
+function signingPayload(method: string, key: string, params: Record<string, string>): string {
+  return [method, key, params.expires, params.content_type ?? "", params.content_length ?? ""].join("\n");
+}
+
+async function presignLocalUrl(
+  method: string,
+  key: string,
+  expiresInSec: number,
+  constraints?: { contentType: string; contentLength: number },
+): Promise<PresignedUrl> {
+  assertValidKey(key);
+  const clampedExpires = Math.max(1, Math.min(MAX_PRESIGN_EXPIRES_SEC, Math.floor(expiresInSec)));
+  const params: Record<string, string> = { expires: String(Math.floor(Date.now() / 1000) + clampedExpires) };
+  if (constraints) {
+    params.content_type = constraints.contentType;
+    params.content_length = String(constraints.contentLength);
+  }
+  params.signature = toHex(await hmacSha256(getSigningSecret(), signingPayload(method, key, params)));
+  const query = new URLSearchParams(params).toString();
+  return { url: `${getBaseUrl()}${LOCAL_OBJECT_PATH_PREFIX}${encodePath(key)}?${query}`, expiresInSec: clampedExpires };
+}
+
+export type LocalUrlCheck =
+  | { ok: true; contentType?: string; contentLength?: number }
+  | { ok: false; message: string };
+
+/**
+ * Verify a presigned local URL. For PUT the returned constraints must match the request.
+ */
+export async function verifyLocalObjectUrl(
+  method: string,
+  key: string,
+  params: URLSearchParams,
+  now = new Date(),
+): Promise<LocalUrlCheck> {
+  const signature = params.get("signature");
+  const expires = Number(params.get("expires"));
+  if (!signature || !Number.isFinite(expires)) return { ok: false, message: "Missing signature" };
+  if (expires * 1000 < now.getTime()) return { ok: false, message: "URL expired" };
+
+  const signed: Record<string, string> = { expires: params.get("expires")! };
+  if (params.has("content_type")) signed.content_type = params.get("content_type")!;
+  if (params.has("content_length")) signed.content_length = params.get("content_length")!;
+  const expected = toHex(await hmacSha256(getSigningSecret(), signingPayload(method, key, signed)));
+  // Compare digests of both values so the comparison time does not depend on the input
+  if (await sha256Hex(expected) !== await sha256Hex(signature)) return { ok: false, message: "Invalid signature" };
+
+  return {
+    ok: true,
+    contentType: signed.content_type,
+    contentLength: signed.content_length === undefined ? undefined : Number(signed.content_length),
+  };
+}
+
+function createLocalStore(name: string, backend: LocalBackend): ObjectStore {
+  const store: ObjectStore = {
+    name,
+
+    async put(key, body, contentType) {
+      assertValidKey(key);
+      const etag = `"${(await sha256Hex(body)).slice(0, 32)}"`;
+      const meta = { key, size: body.length, lastModified: new Date().toISOString(), etag, contentType };
+      await backend.write(key, { body: body.slice(), meta });
+      return { key, etag };
+    },
+
+    // Development stores keep objects whole, so the stream is collected (the size limit still applies)
+    async putStream(key, body, contentType, opts = {}) {
+      assertValidKey(key);
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of readStreamParts(body, STREAM_CHUNK_SIZE, opts.maxBytes)) chunks.push(chunk);
+      const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return { ...await store.put(key, bytes, contentType), size: bytes.length };
+    },
+
+    async head(key) {
+      assertValidKey(key);
+      return (await backend.read(key))?.meta ?? null;
+    },
+
+    async getRange(key, start, end) {
+      assertValidKey(key);
+      const object = await backend.read(key);
+      return object ? object.body.slice(start, end + 1) : null;
+    },
+
+    async delete(key) {
+      assertValidKey(key);
+      await backend.remove(key);
+    },
+
+    async list(opts = {}): Promise<ObjectListPage> {
+      const prefix = opts.prefix ?? "";
+      const maxKeys = opts.maxKeys ?? 1000;
+      // The continuation token is the last key of the previous page
+      const keys = (await backend.keys())
+        .filter((key) => key.startsWith(prefix) && (!opts.continuationToken || key > opts.continuationToken))
+        .sort();
+      const page = keys.slice(0, maxKeys);
+      const objects: StoredObject[] = [];
+      for (const key of page) {
+        const object = await backend.read(key);
+        if (object) objects.push(object.meta);
+      }
+      return { objects, nextContinuationToken: keys.length > maxKeys ? page[page.length - 1] : undefined };
+    },
+
+    presignGet(key, expiresInSec) {
+      return presignLocalUrl("GET", key, expiresInSec);
+    },
+
+    presignPut(key, expiresInSec, constraints) {
+      return presignLocalUrl("PUT", key, expiresInSec, constraints);
+    },
+
+    publicUrl() {
+      return null;
+    },
+  };
+  return store;
+}
+
+export function createMemoryStore(): ObjectStore {
+  return createLocalStore("memory", {
+    read: (key) => Promise.resolve(memoryObjects.get(key) ?? null),
+    write: (key, object) => {
+      memoryObjects.set(key, object);
+      return Promise.resolve();
+    },
+    remove: (key) => {
+      memoryObjects.delete(key);
+      return Promise.resolve();
+    },
+    keys: () => Promise.resolve([...memoryObjects.keys()]),
+  });
+}
+
+/**
+ * Objects are stored as `<dir>/data/<key>` with metadata in `<dir>/meta/<key>.json`.
+ */
+export function createFsStore(dir = Deno.env.get("LOCAL_STORE_DIR")?.trim() || ".data/objects"): ObjectStore {
+  const root = dir.replace(/\/+$/, "");
+  const dataPath = (key: string) => `${root}/data/${key}`;
+  const metaPath = (key: string) => `${root}/meta/${key}.json`;
+  const parent = (path: string) => path.slice(0, path.lastIndexOf("/"));
+
+  const walk = async (path: string, prefix: string, out: string[]) => {
+    try {
+      for await (const entry of Deno.readDir(path)) {
+        const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory) await walk(`${path}/${entry.name}`, key, out);
+        else if (entry.isFile) out.push(key);
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  };
+
+  return createLocalStore("fs", {
+    async read(key) {
+      try {
+        const body = await Deno.readFile(dataPath(key));
+        const meta = JSON.parse(await Deno.readTextFile(metaPath(key))) as StoredObject;
+        return { body, meta };
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return null;
+        throw error;
+      }
+    },
+    async write(key, object) {
+      await Deno.mkdir(parent(dataPath(key)), { recursive: true });
+      await Deno.mkdir(parent(metaPath(key)), { recursive: true });
+      await Deno.writeFile(dataPath(key), object.body);
+      await Deno.writeTextFile(metaPath(key), JSON.stringify(object.meta));
+    },
+    async remove(key) {
+      for (const path of [dataPath(key), metaPath(key)]) {
+        await Deno.remove(path).catch((error) => {
+          if (!(error instanceof Deno.errors.NotFound)) throw error;
+        });
+      }
+    },
+    async keys() {
+      const keys: string[] = [];
+      await walk(`${root}/data`, "", keys);
+      return keys;
+    },
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Object storage for uploaded images, with pluggable backends selected by env.
+ *
+ * Config (env):
+ * - OBJECT_STORE: r2 (default) | s3 | fs | memory
+ *   - r2: see r2.ts (R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, R2_BUCKET, R2_PUBLIC_BASE_URL)
+ *   - s3: any S3-compatible endpoint (AWS, MinIO), see s3.ts
+ *   - fs / memory: local development stores, see local_store.ts
+ */
+
+import { createFsStore, createMemoryStore } from "./local_store.ts";
+import { createR2Store } from "./r2.ts";
+import { createS3Store, loadS3Config } from "./s3.ts";
+
+export type StoredObject = {
+  key: string;
+  size: number;
+  lastModified: string; // ISO 8601 format
+  etag?: string;
+  contentType?: string;
+};
+
+export type ObjectListPage = { objects: StoredObject[]; nextContinuationToken?: string };
+
+export type PresignedUrl = { url: string; expiresInSec: number };
+
+export type PutStreamOptions = {
+  /** Fail with ObjectTooLargeError once the stream exceeds this many bytes */
+  maxBytes?: number;
+};
+
+/**
+ * Thrown by `putStream` when the body exceeds `maxBytes`; nothing is stored.
+ */
+export class ObjectTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Object exceeds ${maxBytes} bytes`);
+    this.name = "ObjectTooLargeError";
+  }
+}
+
+export interface ObjectStore {
+  /** Backend name for logs and errors */
+  readonly name: string;
+  put(key: string, body: Uint8Array, contentType: string): Promise<{ key: string; etag?: string }>;
+  /** Upload a stream without holding it in memory (multipart upload on S3-compatible stores) */
+  putStream(
+    key: string,
+    body: ReadableStream<Uint8Array>,
+    contentType: string,
+    opts?: PutStreamOptions,
+  ): Promise<{ key: string; etag?: string; size: number }>;
+  /** Returns null when the object does not exist */
+  head(key: string): Promise<StoredObject | null>;
+  /** Bytes [start, end] (inclusive); null when the object does not exist */
+  getRange(key: string, start: number, end: number): Promise<Uint8Array | null>;
+  /** Deleting a missing object succeeds */
+  delete(key: string): Promise<void>;
+  /** One page of keys in lexicographic order */
+  list(opts?: { prefix?: string; continuationToken?: string; maxKeys?: number }): Promise<ObjectListPage>;
+  presignGet(key: string, expiresInSec: number): Promise<PresignedUrl>;
+  /** PUT URL restricted to the given content type and exact length */
+  presignPut(key: string, expiresInSec: number, constraints: { contentType: string; contentLength: number }): Promise<PresignedUrl>;
+  /** Direct URL when the bucket is public, otherwise null */
+  publicUrl(key: string): string | null;
+}
+
+export type ObjectStoreName = "r2" | "s3" | "fs" | "memory";
+
+/**
+ * Backend selected by OBJECT_STORE. Config is read on every call, like the other env-driven modules.
+ */
+export function getObjectStore(): ObjectStore {
+  const name = (Deno.env.get("OBJECT_STORE")?.trim().toLowerCase() || "r2") as ObjectStoreName;
+  switch (name) {
+    case "r2":
+      return createR2Store();
+    case "s3":
+      return createS3Store(loadS3Config());
+    case "fs":
+      return createFsStore();
+    case "memory":
+      return createMemoryStore();
+    default:
+      throw new Error(`Unsupported OBJECT_STORE '${name}' (expected r2, s3, fs or memory)`);
+  }
+}
+
+/**
+ * Split a stream into parts of exactly `partSize` bytes (the last one may be shorter).
+ * At most one part is buffered at a time.
+ */
+export async function* readStreamParts(
+  body: ReadableStream<Uint8Array>,
+  partSize: number,
+  maxBytes = Infinity,
+): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  let part = new Uint8Array(partSize);
+  let filled = 0;
+  let total = 0;
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxBytes) throw new ObjectTooLargeError(maxBytes);
+      let offset = 0;
+      while (offset < value.length) {
+        const n = Math.min(partSize - filled, value.length - offset);
+        part.set(value.subarray(offset, offset + n), filled);
+        filled += n;
+        offset += n;
+        if (filled === partSize) {
+          yield part;
+          part = new Uint8Array(partSize);
+          filled = 0;
+        }
+      }
+    }
+    finished = true;
+  } finally {
+    // Stop reading the source when the consumer gives up or the limit is hit
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+  if (filled > 0 || total === 0) yield part.slice(0, filled);
+}
+
+/**
+ * Public URL when the store has one, otherwise a presigned URL valid for an hour.
+ */
+export async function getObjectUrl(store: ObjectStore, key: string): Promise<{ url: string; expiresInSec?: number }> {
+  const publicUrl = store.publicUrl(key);
+  if (publicUrl) return { url: publicUrl };
+  return await store.presignGet(key, 3600);
+}
+
+/**
+ * Key for a temporary object: tmp/YYYY/MM/DD/<uuid>.<ext>
+ */
+export function createTmpObjectKey(ext: string, now = new Date()): string {
+  const y = now.getUTCFullYear().toString().padStart(4, "0");
+  const m = (now.getUTCMonth() + 1).toString().padStart(2, "0");
+  const d = now.getUTCDate().toString().padStart(2, "0");
+  return `tmp/${y}/${m}/${d}/${crypto.randomUUID()}.${ext}`;
+}
+
+/**
+ * Content-addressed key: img/<sha256>.<ext>
+ */
+export function createContentObjectKey(sha256: string, ext: string): string {
+  return `img/${sha256}.${ext}`;
+}
@@ -1,5 +1,5 @@
 import { Prompt, PromptCreate, PromptUpdate, PromptListFilters, PromptListResult, PromptCriteria } from "./types.ts";
-import { ulid } from "jsr:@std/ulid";
+import { ulid } from "@std/ulid";
 
 // We will open the KV store once and can reuse the instance.
 const kv = await Deno.openKv();
@@ -0,0 +1,29 @@
+/**
+ * Tests for rate limit counters.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { consumeRateLimit } from "./rate_limits.ts";
+
+const RULE = { limit: 5, windowSec: 60 };
+
+Deno.test("consumeRateLimit - counts requests and denies past the limit without counting", async () => {
+  const subject = `test:${crypto.randomUUID()}`;
+  const now = Date.now();
+  const first = await consumeRateLimit("POST /test", subject, RULE, now);
+  assertEquals({ allowed: first.allowed, remaining: first.remaining }, { allowed: true, remaining: 4 });
+  for (let i = 0; i < 4; i++) await consumeRateLimit("POST /test", subject, RULE, now);
+  const denied = await consumeRateLimit("POST /test", subject, RULE, now);
+  assertEquals({ allowed: denied.allowed, remaining: denied.remaining }, { allowed: false, remaining: 0 });
+  assertEquals(denied.resetAt, Math.floor(now / 60_000) * 60_000 + 60_000);
+});
+
+Deno.test("consumeRateLimit - weighted requests use up several slots at once", async () => {
+  const subject = `test:${crypto.randomUUID()}`;
+  const now = Date.now();
+  const batch = await consumeRateLimit("POST /test", subject, RULE, now, 3);
+  assertEquals({ allowed: batch.allowed, remaining: batch.remaining }, { allowed: true, remaining: 2 });
+  const tooMany = await consumeRateLimit("POST /test", subject, RULE, now, 3);
+  assertEquals({ allowed: tooMany.allowed, remaining: tooMany.remaining }, { allowed: false, remaining: 2 });
+  assertEquals((await consumeRateLimit("POST /test", subject, RULE, now, 2)).remaining, 0);
+});
@@ -0,0 +1,53 @@
+/**
+ * Fixed-window rate limit counters in KV, one entry per route, subject and window.
+ */
+
+import type { RateLimitRule } from "../auth/types.ts";
+
+const kv = await Deno.openKv();
+
+// Attempts to increment a counter that other requests are updating concurrently
+const MAX_COMMIT_ATTEMPTS = 5;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** End of the current window (ms since epoch) */
+  resetAt: number;
+}
+
+/**
+ * Counts a request, weighing `cost` requests (batch items), against a fixed window of `rule`
+ * for the route and subject. Denied requests are not counted. The counter entry expires with its window.
+ *
+ * @throws Will throw an error if the counter stays contended after several attempts.
+ */
+export async function consumeRateLimit(
+  route: string,
+  subject: string,
+  rule: RateLimitRule,
+  now = Date.now(),
+  cost = 1,
+): Promise<RateLimitDecision> {
+  const windowMs = rule.windowSec * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const resetAt = windowStart + windowMs;
+  const key = ["rate_limits", route, subject, windowStart];
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const entry = await kv.get<number>(key);
+    const count = entry.value ?? 0;
+    if (count + cost > rule.limit) {
+      return { allowed: false, limit: rule.limit, remaining: Math.max(0, rule.limit - count), resetAt };
+    }
+    const res = await kv.atomic()
+      .check(entry)
+      .set(key, count + cost, { expireIn: resetAt - now + 1000 })
+      .commit();
+    if (res.ok) {
+      return { allowed: true, limit: rule.limit, remaining: rule.limit - count - cost, resetAt };
+    }
+  }
+  throw new Error("Failed to update rate limit counter: too many concurrent requests");
+}
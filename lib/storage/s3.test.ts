@@ -0,0 +1,246 @@
+/**
+ * Tests for S3-compatible object requests (R2 config and custom endpoints).
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { sha256Hex } from "../utils/hash.ts";
+import { createContentObjectKey, getObjectStore, ObjectTooLargeError } from "./object_store.ts";
+import { createS3Store } from "./s3.ts";
+
+const ENV = {
+  OBJECT_STORE: "r2",
+  R2_ACCOUNT_ID: "account",
+  R2_ACCESS_KEY_ID: "access-key",
+  R2_SECRET_ACCESS_KEY: "secret",
+  R2_BUCKET: "bucket",
+};
+
+// ListObjectsV2 XML for the mocked objects, paginated by max-keys with the offset as token
+function listing(objects: Record<string, number>, params: URLSearchParams): Response {
+  const keys = Object.keys(objects).map((path) => path.replace(/^\/bucket\//, ""))
+    .filter((key) => key.startsWith(params.get("prefix") ?? ""));
+  const start = Number(params.get("continuation-token") ?? 0);
+  const end = start + Number(params.get("max-keys"));
+  const contents = keys.slice(start, end).map((key) =>
+    `<Contents><Key>${key.replace(/&/g, "&amp;")}</Key><LastModified>2026-01-01T00:00:00.000Z</LastModified>` +
+    `<ETag>&quot;e&quot;</ETag><Size>${objects[`/bucket/${key}`]}</Size></Contents>`
+  ).join("");
+  const truncated = end < keys.length;
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><IsTruncated>${truncated}</IsTruncated>${contents}` +
+      (truncated ? `<NextContinuationToken>${end}</NextContinuationToken>` : "") + "</ListBucketResult>",
+  );
+}
+
+async function withMockedR2(
+  objects: Record<string, number>,
+  fn: (calls: Array<{ method: string; url: string; headers: Headers }>) => Promise<void>,
+) {
+  const prevEnv = new Map<string, string | undefined>();
+  for (const [name, value] of Object.entries(ENV)) {
+    prevEnv.set(name, Deno.env.get(name));
+    Deno.env.set(name, value);
+  }
+
+  const calls: Array<{ method: string; url: string; headers: Headers }> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    calls.push({ method: init?.method ?? "GET", url, headers: new Headers(init?.headers) });
+    const params = new URL(url).searchParams;
+    if (params.get("list-type") === "2") return Promise.resolve(listing(objects, params));
+    const size = objects[new URL(url).pathname];
+    if (size === undefined) return Promise.resolve(new Response(null, { status: 404 }));
+    return Promise.resolve(new Response(null, {
+      headers: {
+        "ETag": '"abc"',
+        "Content-Length": String(size),
+        "Content-Type": "image/png",
+        "Last-Modified": "Thu, 01 Jan 2026 00:00:00 GMT",
+      },
+    }));
+  }) as typeof fetch;
+
+  try {
+    await fn(calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+    for (const [name, value] of prevEnv) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+}
+
+Deno.test("r2 store head - signed HEAD returns metadata or null", async () => {
+  const hash = await sha256Hex("image bytes");
+  const key = createContentObjectKey(hash, "png");
+  assertEquals(key, `img/${hash}.png`);
+
+  await withMockedR2({ [`/bucket/${key}`]: 42 }, async (calls) => {
+    const store = getObjectStore();
+    assertEquals(await store.head(key), {
+      key,
+      size: 42,
+      lastModified: "2026-01-01T00:00:00.000Z",
+      etag: '"abc"',
+      contentType: "image/png",
+    });
+    assertEquals(await store.head("img/missing.png"), null);
+
+    const { method, url, headers } = calls[0];
+    assertEquals(method, "HEAD");
+    assertEquals(url, `https://account.r2.cloudflarestorage.com/bucket/${key}`);
+    assertEquals(headers.get("x-amz-content-sha256"), await sha256Hex(""));
+    assertEquals(
+      headers.get("authorization")?.includes("SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature="),
+      true,
+    );
+  });
+});
+
+Deno.test("r2 store put - signs the content type", async () => {
+  await withMockedR2({ "/bucket/tmp/a.png": 3 }, async (calls) => {
+    const result = await getObjectStore().put("tmp/a.png", new Uint8Array([1, 2, 3]), "image/png");
+    assertEquals(result, { key: "tmp/a.png", etag: '"abc"' });
+    assertEquals(calls[0].method, "PUT");
+    assertEquals(calls[0].headers.get("content-type"), "image/png");
+    assertEquals(
+      calls[0].headers.get("authorization")?.includes("SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date"),
+      true,
+    );
+  });
+});
+
+Deno.test("r2 store delete - signed DELETE tolerates missing objects", async () => {
+  await withMockedR2({}, async (calls) => {
+    await getObjectStore().delete("tmp/gone.png");
+    assertEquals(calls.map((c) => `${c.method} ${new URL(c.url).pathname}`), ["DELETE /bucket/tmp/gone.png"]);
+  });
+});
+
+Deno.test("r2 store list - signed ListObjectsV2 pages with decoded keys", async () => {
+  const objects = { "/bucket/tmp/a&b.png": 1, "/bucket/tmp/c.png": 2, "/bucket/tmp/d.png": 3, "/bucket/img/x.png": 4 };
+  await withMockedR2(objects, async (calls) => {
+    const store = getObjectStore();
+    const first = await store.list({ prefix: "tmp/", maxKeys: 2 });
+    assertEquals(first.objects.map((o) => o.key), ["tmp/a&b.png", "tmp/c.png"]);
+    assertEquals(first.objects[0], { key: "tmp/a&b.png", size: 1, lastModified: "2026-01-01T00:00:00.000Z", etag: '"e"' });
+    assertEquals(first.nextContinuationToken, "2");
+
+    const second = await store.list({ prefix: "tmp/", maxKeys: 2, continuationToken: first.nextContinuationToken });
+    assertEquals(second.objects.map((o) => o.key), ["tmp/d.png"]);
+    assertEquals(second.nextContinuationToken, undefined);
+
+    assertEquals(new URL(calls[0].url).pathname, "/bucket");
+    assertEquals(new URL(calls[0].url).search, "?list-type=2&max-keys=2&prefix=tmp%2F");
+  });
+});
+
+Deno.test("r2 store presignPut - signs content type and length", async () => {
+  await withMockedR2({}, async () => {
+    const { url, expiresInSec } = await getObjectStore().presignPut("tmp/a.png", 900, { contentType: "image/png", contentLength: 1234 });
+    const params = new URL(url).searchParams;
+    assertEquals(expiresInSec, 900);
+    assertEquals(params.get("X-Amz-SignedHeaders"), "content-length;content-type;host");
+    assertEquals(params.get("X-Amz-Expires"), "900");
+    assertEquals(params.has("X-Amz-Signature"), true);
+  });
+});
+
+Deno.test("r2 store getRange - sends a signed Range header", async () => {
+  await withMockedR2({ "/bucket/tmp/a.png": 10 }, async (calls) => {
+    const store = getObjectStore();
+    assertEquals(await store.getRange("tmp/a.png", 0, 65535), new Uint8Array());
+    assertEquals(await store.getRange("tmp/missing.png", 0, 65535), null);
+    assertEquals(calls[0].headers.get("range"), "bytes=0-65535");
+    assertEquals(calls[0].headers.get("authorization")?.includes("SignedHeaders=host;range;"), true);
+  });
+});
+
+Deno.test("createS3Store - path-style custom endpoint and AWS virtual-hosted URLs", async () => {
+  const credentials = { bucket: "images", accessKeyId: "minio", secretAccessKey: "minio-secret" };
+  const minio = createS3Store({ ...credentials, endpoint: "http://localhost:9000", region: "us-east-1" });
+  const local = new URL((await minio.presignGet("tmp/a b.png", 60)).url);
+  assertEquals(`${local.origin}${local.pathname}`, "http://localhost:9000/images/tmp/a%20b.png");
+  assertEquals(local.searchParams.get("X-Amz-Credential")?.endsWith("/us-east-1/s3/aws4_request"), true);
+
+  const aws = createS3Store({ ...credentials, region: "eu-west-1", publicBaseUrl: "https://cdn.example.com/" });
+  const remote = new URL((await aws.presignGet("tmp/a.png", 60)).url);
+  assertEquals(`${remote.origin}${remote.pathname}`, "https://images.s3.eu-west-1.amazonaws.com/tmp/a.png");
+  assertEquals(aws.publicUrl("tmp/a.png"), "https://cdn.example.com/tmp/a.png");
+  assertEquals(minio.publicUrl("tmp/a.png"), null);
+});
+
+function streamOf(size: number, chunkSize = 1024 * 1024): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent >= size) return controller.close();
+      const n = Math.min(chunkSize, size - sent);
+      controller.enqueue(new Uint8Array(n).fill(sent % 251));
+      sent += n;
+    },
+  });
+}
+
+async function withMockedMultipart(fn: (calls: string[], store: ReturnType<typeof createS3Store>) => Promise<void>) {
+  const calls: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const method = init?.method ?? "GET";
+    const size = init?.body instanceof Uint8Array ? ` ${init.body.length}` : "";
+    calls.push(`${method} ${url.search}${size}`);
+    if (url.searchParams.has("uploads")) {
+      return Promise.resolve(new Response("<InitiateMultipartUploadResult><UploadId>u1</UploadId></InitiateMultipartUploadResult>"));
+    }
+    if (url.searchParams.has("partNumber")) {
+      return Promise.resolve(new Response(null, { headers: { "ETag": `"p${url.searchParams.get("partNumber")}"` } }));
+    }
+    if (method === "POST") {
+      return Promise.resolve(new Response("<CompleteMultipartUploadResult><ETag>&quot;m-3&quot;</ETag></CompleteMultipartUploadResult>"));
+    }
+    return Promise.resolve(new Response(null, { status: method === "DELETE" ? 204 : 200, headers: { "ETag": '"single"' } }));
+  }) as typeof fetch;
+  try {
+    const store = createS3Store({
+      endpoint: "http://localhost:9000",
+      region: "us-east-1",
+      bucket: "images",
+      accessKeyId: "minio",
+      secretAccessKey: "minio-secret",
+      partSize: 1, // clamped to the 5MB S3 minimum
+    });
+    await fn(calls, store);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+Deno.test("createS3Store putStream - multipart upload in 5MB parts", async () => {
+  await withMockedMultipart(async (calls, store) => {
+    const result = await store.putStream("tmp/scan.png", streamOf(12 * 1024 * 1024), "image/png");
+    assertEquals(result, { key: "tmp/scan.png", etag: '"m-3"', size: 12 * 1024 * 1024 });
+    assertEquals(calls, [
+      "POST ?uploads=",
+      `PUT ?partNumber=1&uploadId=u1 ${5 * 1024 * 1024}`,
+      `PUT ?partNumber=2&uploadId=u1 ${5 * 1024 * 1024}`,
+      `PUT ?partNumber=3&uploadId=u1 ${2 * 1024 * 1024}`,
+      "POST ?uploadId=u1",
+    ]);
+  });
+});
+
+Deno.test("createS3Store putStream - small bodies use one PUT, oversized ones are aborted", async () => {
+  await withMockedMultipart(async (calls, store) => {
+    assertEquals(await store.putStream("tmp/a.png", streamOf(1000), "image/png"), { key: "tmp/a.png", etag: '"single"', size: 1000 });
+    assertEquals(calls, ["PUT  1000"]);
+
+    calls.length = 0;
+    const error = await store.putStream("tmp/b.png", streamOf(12 * 1024 * 1024), "image/png", { maxBytes: 7 * 1024 * 1024 })
+      .catch((e) => e);
+    assertEquals(error instanceof ObjectTooLargeError, true);
+    assertEquals(calls, ["POST ?uploads=", `PUT ?partNumber=1&uploadId=u1 ${5 * 1024 * 1024}`, "DELETE ?uploadId=u1"]);
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * ObjectStore for S3-compatible APIs (AWS S3, MinIO, R2) with SigV4 request signing and presigning.
+ *
+ * Config (env, OBJECT_STORE=s3):
+ * - S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY: required
+ * - S3_REGION: signing region (default us-east-1)
+ * - S3_ENDPOINT: custom endpoint such as http://localhost:9000 for MinIO; requests use path-style
+ *   URLs (<endpoint>/<bucket>/<key>). Without it AWS virtual-hosted URLs are used.
+ * - S3_FORCE_PATH_STYLE: set to 1 to use path-style URLs on AWS as well
+ * - S3_PUBLIC_BASE_URL: public base URL for objects (otherwise URLs are presigned)
+ * - S3_MULTIPART_PART_SIZE: part size in bytes for streamed uploads (default 8MB, minimum 5MB)
+ */
+
+import { hmacSha256, sha256Hex, toHex } from "../utils/hash.ts";
+import { readStreamParts } from "./object_store.ts";
+import type { ObjectListPage, ObjectStore, PresignedUrl, StoredObject } from "./object_store.ts";
+
+export type S3Config = {
+  /** Endpoint origin; AWS when omitted */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicBaseUrl?: string;
+  forcePathStyle?: boolean;
+  /** Part size for streamed (multipart) uploads */
+  partSize?: number;
+};
+
+export type CompletedPart = { partNumber: number; etag: string };
+
+/**
+ * S3 store with the multipart upload primitives used by `putStream`.
+ */
+export type S3ObjectStore = ObjectStore & {
+  createMultipartUpload(key: string, contentType: string): Promise<string>;
+  /** Parts are sent with UNSIGNED-PAYLOAD, so a part is not hashed before upload */
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array): Promise<CompletedPart>;
+  completeMultipartUpload(key: string, uploadId: string, parts: CompletedPart[]): Promise<{ key: string; etag?: string }>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+};
+
+const MAX_PRESIGN_EXPIRES_SEC = 604800;
+// S3 requires every part except the last to be at least 5MB
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+export function loadS3Config(): S3Config {
+  const bucket = Deno.env.get("S3_BUCKET")?.trim();
+  const accessKeyId = Deno.env.get("S3_ACCESS_KEY_ID")?.trim();
+  const secretAccessKey = Deno.env.get("S3_SECRET_ACCESS_KEY")?.trim();
+
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("S3 config missing (S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)");
+  }
+
+  return {
+    endpoint: Deno.env.get("S3_ENDPOINT")?.trim() || undefined,
+    region: Deno.env.get("S3_REGION")?.trim() || "us-east-1",
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    publicBaseUrl: Deno.env.get("S3_PUBLIC_BASE_URL")?.trim() || undefined,
+    forcePathStyle: Deno.env.get("S3_FORCE_PATH_STYLE") === "1",
+    partSize: Number(Deno.env.get("S3_MULTIPART_PART_SIZE")) || undefined,
+  };
+}
+
+function amzDate(date = new Date()): { amz: string; ymd: string } {
+  const y = date.getUTCFullYear().toString().padStart(4, "0");
+  const m = (date.getUTCMonth() + 1).toString().padStart(2, "0");
+  const d = date.getUTCDate().toString().padStart(2, "0");
+  const hh = date.getUTCHours().toString().padStart(2, "0");
+  const mm = date.getUTCMinutes().toString().padStart(2, "0");
+  const ss = date.getUTCSeconds().toString().padStart(2, "0");
+  const ymd = `${y}${m}${d}`;
+  return { ymd, amz: `${ymd}T${hh}${mm}${ss}Z` };
+}
+
+function encodeRfc3986(str: string): string {
+  return encodeURIComponent(str).replace(/[!'()*]/g, (c) =>
+    "%" + c.charCodeAt(0).toString(16).toUpperCase()
+  );
+}
+
+function encodePath(path: string): string {
+  return path.split("/").map((seg) => encodeRfc3986(seg)).join("/");
+}
+
+function canonicalQueryString(query: Record<string, string>): string {
+  return Object.keys(query).sort().map((k) => `${encodeRfc3986(k)}=${encodeRfc3986(query[k])}`).join("&");
+}
+
+async function deriveSigningKey(secretAccessKey: string, ymd: string, region: string): Promise<Uint8Array> {
+  const kDate = await hmacSha256(new TextEncoder().encode("AWS4" + secretAccessKey), ymd);
+  const kRegion = await hmacSha256(kDate, region);
+  const kService = await hmacSha256(kRegion, "s3");
+  const kSigning = await hmacSha256(kService, "aws4_request");
+  return kSigning;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function xmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function encodeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * S3-compatible store. `name` prefixes error messages ("R2 PUT error (403)").
+ */
+export function createS3Store(cfg: S3Config, name = "s3"): S3ObjectStore {
+  const label = name.toUpperCase();
+  const partSize = Math.max(MIN_PART_SIZE, Math.floor(cfg.partSize ?? DEFAULT_PART_SIZE));
+  const pathStyle = Boolean(cfg.endpoint) || Boolean(cfg.forcePathStyle);
+  const origin = cfg.endpoint
+    ? new URL(cfg.endpoint).origin
+    : pathStyle
+    ? `https://s3.${cfg.region}.amazonaws.com`
+    : `https://${cfg.bucket}.s3.${cfg.region}.amazonaws.com`;
+  // Includes a non-default port (e.g. localhost:9000), as sent by fetch
+  const host = new URL(origin).host;
+  const scopeSuffix = `${cfg.region}/s3/aws4_request`;
+
+  // Canonical URI of an object, or of the bucket for an empty key
+  const objectPath = (key: string) => {
+    if (pathStyle) return encodePath(key ? `/${cfg.bucket}/${key}` : `/${cfg.bucket}`);
+    return encodePath(`/${key}`);
+  };
+
+  const sign = async (stringToSign: string, ymd: string) => {
+    const signingKey = await deriveSigningKey(cfg.secretAccessKey, ymd, cfg.region);
+    return toHex(await hmacSha256(signingKey, stringToSign));
+  };
+
+  /**
+   * Build SigV4 headers for a request to an object in the bucket (or the bucket itself for an empty key).
+   * `headers` are extra signed headers (lowercase names); host is signed but left for fetch to set.
+   */
+  const signObjectRequest = async (
+    method: string,
+    key: string,
+    payloadHash: string,
+    headers: Record<string, string> = {},
+    query: Record<string, string> = {},
+  ): Promise<{ url: string; headers: Record<string, string> }> => {
+    const now = amzDate();
+    const canonicalUri = objectPath(key);
+    const canonicalQuery = canonicalQueryString(query);
+    const url = `${origin}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ""}`;
+
+    const signed: Record<string, string> = {
+      ...headers,
+      "host": host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": now.amz,
+    };
+    const names = Object.keys(signed).sort();
+    const canonicalHeaders = names.map((name) => `${name}:${signed[name]}\n`).join("");
+    const signedHeaders = names.join(";");
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      canonicalQuery,
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${now.ymd}/${scopeSuffix}`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      now.amz,
+      scope,
+      await sha256Hex(canonicalRequest),
+    ].join("\n");
+    const signature = await sign(stringToSign, now.ymd);
+
+    const authorization =
+      `AWS4-HMAC-SHA256 Credential=${cfg.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    const { host: _host, ...requestHeaders } = signed;
+    return { url, headers: { ...requestHeaders, "authorization": authorization } };
+  };
+
+  /**
+   * Presigned URL for `method` on an object. `headers` (lowercase names) are signed
+   * and must be sent with exactly these values.
+   */
+  const presignObjectUrl = async (
+    method: string,
+    key: string,
+    expiresInSec: number,
+    headers: Record<string, string> = {},
+  ): Promise<PresignedUrl> => {
+    const now = amzDate();
+    const canonicalUri = objectPath(key);
+    const clampedExpires = Math.max(1, Math.min(MAX_PRESIGN_EXPIRES_SEC, Math.floor(expiresInSec)));
+    const scope = `${now.ymd}/${scopeSuffix}`;
+
+    const signed: Record<string, string> = { ...headers, "host": host };
+    const names = Object.keys(signed).sort();
+    const signedHeaders = names.join(";");
+
+    const canonicalQuery = canonicalQueryString({
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${cfg.accessKeyId}/${scope}`,
+      "X-Amz-Date": now.amz,
+      "X-Amz-Expires": String(clampedExpires),
+      "X-Amz-SignedHeaders": signedHeaders,
+    });
+
+    const canonicalHeaders = names.map((name) => `${name}:${signed[name]}\n`).join("");
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      canonicalQuery,
+      canonicalHeaders,
+      signedHeaders,
+      "UNSIGNED-PAYLOAD",
+    ].join("\n");
+
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      now.amz,
+      scope,
+      await sha256Hex(canonicalRequest),
+    ].join("\n");
+    const signature = await sign(stringToSign, now.ymd);
+
+    const url = `${origin}${canonicalUri}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+    return { url, expiresInSec: clampedExpires };
+  };
+
+  const store: S3ObjectStore = {
+    name,
+
+    async put(key, body, contentType) {
+      const payloadHash = await sha256Hex(body);
+      const { url, headers } = await signObjectRequest("PUT", key, payloadHash, { "content-type": contentType });
+
+      const res = await fetch(url, {
+        method: "PUT",
+        headers,
+        body: body as unknown as BodyInit,
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text().catch(() => "Unknown error");
+        throw new Error(`${label} PUT error (${res.status}): ${errorText}`);
+      }
+      await res.body?.cancel();
+
+      return { key, etag: res.headers.get("ETag") ?? undefined };
+    },
+
+    async head(key) {
+      const { url, headers } = await signObjectRequest("HEAD", key, await sha256Hex(""));
+      const res = await fetch(url, { method: "HEAD", headers });
+
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw new Error(`${label} HEAD error (${res.status})`);
+      }
+
+      const lastModified = res.headers.get("Last-Modified");
+      return {
+        key,
+        size: Number(res.headers.get("Content-Length") ?? 0),
+        lastModified: lastModified ? new Date(lastModified).toISOString() : "",
+        etag: res.headers.get("ETag") ?? undefined,
+        contentType: res.headers.get("Content-Type") ?? undefined,
+      };
+    },
+
+    async getRange(key, start, end) {
+      const { url, headers } = await signObjectRequest("GET", key, await sha256Hex(""), { "range": `bytes=${start}-${end}` });
+      const res = await fetch(url, { method: "GET", headers });
+
+      if (res.status === 404) {
+        await res.body?.cancel();
+        return null;
+      }
+      if (!res.ok) {
+        const errorText = await res.text().catch(() => "Unknown error");
+        throw new Error(`${label} GET error (${res.status}): ${errorText}`);
+      }
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    async delete(key) {
+      const { url, headers } = await signObjectRequest("DELETE", key, await sha256Hex(""));
+      const res = await fetch(url, { method: "DELETE", headers });
+
+      if (!res.ok && res.status !== 404) {
+        const errorText = await res.text().catch(() => "Unknown error");
+        throw new Error(`${label} DELETE error (${res.status}): ${errorText}`);
+      }
+      await res.body?.cancel();
+    },
+
+    async list(opts = {}): Promise<ObjectListPage> {
+      const query: Record<string, string> = { "list-type": "2", "max-keys": String(opts.maxKeys ?? 1000) };
+      if (opts.prefix) query["prefix"] = opts.prefix;
+      if (opts.continuationToken) query["continuation-token"] = opts.continuationToken;
+
+      const { url, headers } = await signObjectRequest("GET", "", await sha256Hex(""), {}, query);
+      const res = await fetch(url, { method: "GET", headers });
+      const xml = await res.text();
+      if (!res.ok) {
+        throw new Error(`${label} LIST error (${res.status}): ${xml}`);
+      }
+
+      const objects: StoredObject[] = [];
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = xmlTag(match[1], "Key");
+        if (!key) continue;
+        objects.push({
+          key,
+          size: Number(xmlTag(match[1], "Size") ?? 0),
+          lastModified: xmlTag(match[1], "LastModified") ?? "",
+          etag: xmlTag(match[1], "ETag"),
+        });
+      }
+      const truncated = xmlTag(xml, "IsTruncated") === "true";
+      return { objects, nextContinuationToken: truncated ? xmlTag(xml, "NextContinuationToken") : undefined };
+    },
+
+    presignGet(key, expiresInSec) {
+      return presignObjectUrl("GET", key, expiresInSec);
+    },
+
+    presignPut(key, expiresInSec, constraints) {
+      return presignObjectUrl("PUT", key, expiresInSec, {
+        "content-length": String(constraints.contentLength),
+        "content-type": constraints.contentType,
+      });
+    },
+
+    publicUrl(key) {
+      if (!cfg.publicBaseUrl) return null;
+      const base = cfg.publicBaseUrl.replace(/\/+$/, "");
+      return `${base}/${encodePath(key)}`;
+    },
+
+    /**
+     * Bodies that fit in one part are sent with a single PUT; larger ones as a multipart
+     * upload, one part in memory at a time. A failed multipart upload is aborted.
+     */
+    async putStream(key, body, contentType, opts = {}) {
+      const parts = readStreamParts(body, partSize, opts.maxBytes);
+      const first = await parts.next();
+      const firstPart = first.done ? new Uint8Array() : first.value;
+      if (firstPart.length < partSize) {
+        await parts.return(undefined);
+        return { ...await store.put(key, firstPart, contentType), size: firstPart.length };
+      }
+
+      const uploadId = await store.createMultipartUpload(key, contentType);
+      try {
+        const completed = [await store.uploadPart(key, uploadId, 1, firstPart)];
+        let size = firstPart.length;
+        for await (const part of parts) {
+          if (part.length === 0) continue;
+          completed.push(await store.uploadPart(key, uploadId, completed.length + 1, part));
+          size += part.length;
+        }
+        return { ...await store.completeMultipartUpload(key, uploadId, completed), size };
+      } catch (error) {
+        await store.abortMultipartUpload(key, uploadId).catch(() => {});
+        throw error;
+      }
+    },
+
+    async createMultipartUpload(key, contentType) {
+      const { url, headers } = await signObjectRequest("POST", key, await sha256Hex(""), { "content-type": contentType }, {
+        "uploads": "",
+      });
+      const res = await fetch(url, { method: "POST", headers });
+      const xml = await res.text();
+      const uploadId = xmlTag(xml, "UploadId");
+      if (!res.ok || !uploadId) {
+        throw new Error(`${label} CreateMultipartUpload error (${res.status}): ${xml}`);
+      }
+      return uploadId;
+    },
+
+    async uploadPart(key, uploadId, partNumber, body) {
+      const { url, headers } = await signObjectRequest("PUT", key, "UNSIGNED-PAYLOAD", {}, {
+        "partNumber": String(partNumber),
+        "uploadId": uploadId,
+      });
+      const res = await fetch(url, { method: "PUT", headers, body: body as unknown as BodyInit });
+      const etag = res.headers.get("ETag");
+      if (!res.ok || !etag) {
+        const errorText = await res.text().catch(() => "Unknown error");
+        throw new Error(`${label} UploadPart ${partNumber} error (${res.status}): ${errorText}`);
+      }
+      await res.body?.cancel();
+      return { partNumber, etag };
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const xmlBody = "<CompleteMultipartUpload>" +
+        parts.map((p) => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${encodeXml(p.etag)}</ETag></Part>`).join("") +
+        "</CompleteMultipartUpload>";
+      const { url, headers } = await signObjectRequest("POST", key, await sha256Hex(xmlBody), {
+        "content-type": "application/xml",
+      }, { "uploadId": uploadId });
+      const res = await fetch(url, { method: "POST", headers, body: xmlBody });
+      const xml = await res.text();
+      // S3 can report a failed completion with 200 and an <Error> body
+      if (!res.ok || xml.includes("<Error>")) {
+        throw new Error(`${label} CompleteMultipartUpload error (${res.status}): ${xml}`);
+      }
+      return { key, etag: xmlTag(xml, "ETag") };
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      const { url, headers } = await signObjectRequest("DELETE", key, await sha256Hex(""), {}, { "uploadId": uploadId });
+      const res = await fetch(url, { method: "DELETE", headers });
+      if (!res.ok && res.status !== 404) {
+        const errorText = await res.text().catch(() => "Unknown error");
+        throw new Error(`${label} AbortMultipartUpload error (${res.status}): ${errorText}`);
+      }
+      await res.body?.cancel();
+    },
+  };
+  return store;
+}
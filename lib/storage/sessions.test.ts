@@ -0,0 +1,23 @@
+/**
+ * Tests for conversation session storage.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { appendSessionMessages, createSession, getSession } from "./sessions.ts";
+
+Deno.test("appendSessionMessages - concurrent appends keep every turn", async () => {
+  const session = await createSession({ images: [] }, "auth0|sessions-test");
+  const results = await Promise.all(
+    ["a", "b", "c"].map((content) => appendSessionMessages(session.id, "auth0|sessions-test", [{ role: "user", content }])),
+  );
+  assertEquals(results.every((result) => result !== null), true);
+  const stored = await getSession(session.id, "auth0|sessions-test");
+  assertEquals(stored?.messages.map((m) => m.content).sort(), ["a", "b", "c"]);
+});
+
+Deno.test("appendSessionMessages - sessions of other owners are not found", async () => {
+  const session = await createSession({ images: [] }, "auth0|owner");
+  assertEquals(await appendSessionMessages(session.id, "anonymous", [{ role: "user", content: "hi" }]), null);
+  assertEquals(await getSession(session.id, "anonymous"), null);
+  assertEquals((await getSession(session.id, "auth0|owner"))?.messages, []);
+});
@@ -0,0 +1,124 @@
+import { Session, SessionCreate, SessionMessage } from "./types.ts";
+import { ulid } from "@std/ulid";
+
+const kv = await Deno.openKv();
+
+const DEFAULT_TTL_SEC = 24 * 60 * 60;
+const MAX_TTL_SEC = 30 * 24 * 60 * 60;
+// Deno KV values are limited to 64 KiB; keep headroom for serialization overhead.
+const MAX_SESSION_BYTES = 60 * 1024;
+const MAX_COMMIT_ATTEMPTS = 5;
+
+/**
+ * Thrown when a session would exceed the KV value size limit.
+ */
+export class SessionTooLargeError extends Error {
+  constructor() {
+    super("Session is too large; use image URLs instead of inline images and start a new session");
+    this.name = "SessionTooLargeError";
+  }
+}
+
+/**
+ * Thrown when a session keeps being modified concurrently while appending.
+ */
+export class SessionConflictError extends Error {
+  constructor() {
+    super("Failed to update session: The session was modified by another request.");
+    this.name = "SessionConflictError";
+  }
+}
+
+/**
+ * Session TTL in seconds (SESSION_TTL_SEC, clamped to 30 days).
+ */
+export function getSessionTtlSec(): number {
+  const value = Number(Deno.env.get("SESSION_TTL_SEC"));
+  const ttl = Number.isFinite(value) && value > 0 ? value : DEFAULT_TTL_SEC;
+  return Math.min(MAX_TTL_SEC, Math.floor(ttl));
+}
+
+function assertSize(session: Session): void {
+  if (new TextEncoder().encode(JSON.stringify(session)).length > MAX_SESSION_BYTES) {
+    throw new SessionTooLargeError();
+  }
+}
+
+/**
+ * Creates a new session owned by the given user.
+ * The KV entry expires after the session TTL; every new message extends it.
+ */
+export async function createSession(data: SessionCreate, userId?: string): Promise<Session> {
+  const ttlSec = getSessionTtlSec();
+  const now = new Date();
+
+  const session: Session = {
+    ...data,
+    id: ulid(),
+    userId,
+    images: data.images ?? [],
+    messages: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlSec * 1000).toISOString(),
+  };
+  assertSize(session);
+
+  await kv.set(["sessions", session.id], session, { expireIn: ttlSec * 1000 });
+  return session;
+}
+
+/**
+ * Retrieves a session by ID.
+ * Returns null if it does not exist, has expired, or belongs to another user.
+ */
+export async function getSession(id: string, userId?: string): Promise<Session | null> {
+  const entry = await kv.get<Session>(["sessions", id]);
+  const session = entry.value;
+  if (!session) return null;
+  // KV expiry is lazy, so expired entries may still be readable for a while
+  if (session.expiresAt <= new Date().toISOString()) return null;
+  if (session.userId !== userId) return null;
+  return session;
+}
+
+/**
+ * Appends messages to a session and extends its TTL.
+ * Concurrent appends are retried, so turns from parallel requests are all kept.
+ *
+ * @returns The updated session, or null if it was not found.
+ * @throws SessionConflictError if the session stays contended after several attempts.
+ * @throws SessionTooLargeError if the session grows too large.
+ */
+export async function appendSessionMessages(
+  id: string,
+  userId: string | undefined,
+  messages: Array<Omit<SessionMessage, "createdAt">>,
+): Promise<Session | null> {
+  const key = ["sessions", id];
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const entry = await kv.get<Session>(key);
+    const existing = entry.value;
+    if (!existing || existing.userId !== userId || existing.expiresAt <= new Date().toISOString()) {
+      return null;
+    }
+
+    const ttlSec = getSessionTtlSec();
+    const now = new Date();
+    const createdAt = now.toISOString();
+    const updated: Session = {
+      ...existing,
+      messages: [...existing.messages, ...messages.map((m) => ({ ...m, createdAt }))],
+      updatedAt: createdAt,
+      expiresAt: new Date(now.getTime() + ttlSec * 1000).toISOString(),
+    };
+    assertSize(updated);
+
+    const res = await kv.atomic()
+      .check(entry)
+      .set(key, updated, { expireIn: ttlSec * 1000 })
+      .commit();
+    if (res.ok) return updated;
+  }
+  throw new SessionConflictError();
+}
@@ -2,6 +2,9 @@
  * Data types for the Prompts subsystem based on Deno KV.
  */
 
+import type { GenerationParams } from "../providers/types.ts";
+import type { StripMode } from "../utils/exif.ts";
+
 /**
  * The main Prompt entity stored in the database.
  */
@@ -16,6 +19,7 @@ export interface Prompt {
   priority: number;
   isActive: boolean;
   isDefault: boolean;
+  params?: GenerationParams; // default generation params, overridable per request
   createdAt: string; // ISO 8601 format
   updatedAt: string; // ISO 8601 format
 }
@@ -62,3 +66,142 @@ export interface PromptCriteria {
   tags?: string[];
   priority?: number;
 }
+
+/**
+ * A single stored turn of a conversation session.
+ */
+export interface SessionMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string; // ISO 8601 format
+}
+
+/**
+ * Server-side conversation session stored in KV with TTL expiry.
+ * Session-level images and system prompt apply to every turn.
+ */
+export interface Session {
+  id: string;
+  userId?: string; // getResourceOwner() of the creator
+  provider?: string;
+  model?: string;
+  system?: string; // includes the KV prompt resolved at creation
+  prompt_id?: string; // KV prompt used for the system text, if any
+  params?: GenerationParams;
+  images: string[]; // image URLs attached to the first user turn
+  detail?: "low" | "high" | "auto";
+  messages: SessionMessage[];
+  createdAt: string; // ISO 8601 format
+  updatedAt: string; // ISO 8601 format
+  expiresAt: string; // ISO 8601 format
+}
+
+/**
+ * Data accepted when creating a session.
+ */
+export type SessionCreate = Partial<
+  Pick<Session, "provider" | "model" | "system" | "prompt_id" | "params" | "images" | "detail">
+>;
+
+/**
+ * Content hash → stored object mapping used to deduplicate uploads.
+ */
+export interface ImageHashRecord {
+  sha256: string; // hex SHA-256 of the stored bytes
+  key: string; // object store key
+  contentType: string;
+  size: number;
+  createdAt: string; // ISO 8601 format
+}
+
+/**
+ * Uploaded image as seen by one owner; deduplicated objects can have several owners.
+ */
+export interface ImageRecord {
+  key: string; // object store key
+  ownerId: string; // getResourceOwner(): JWT user, or "anonymous" when auth is disabled
+  contentType: string;
+  format: string; // image format, or "pdf" for streamed documents
+  size: number;
+  width?: number; // absent for documents
+  height?: number;
+  sha256?: string; // set for deduplicated uploads
+  createdAt: string; // ISO 8601 format
+}
+
+export interface ImageListResult {
+  items: ImageRecord[];
+  cursor?: string; // opaque cursor for next page
+}
+
+/**
+ * Presigned direct upload awaiting `POST /v1/images/:key/complete`.
+ */
+export interface PendingImageUpload {
+  key: string;
+  ownerId: string;
+  contentType: string;
+  contentLength: number;
+  strip?: StripMode; // metadata stripping applied to JPEGs on complete (absent: IMAGE_STRIP_METADATA)
+  createdAt: string; // ISO 8601 format
+  expiresAt: string; // ISO 8601 format; the presigned URL stops working
+}
+
+/**
+ * Cached upstream result of a vision request, replayed for identical payloads.
+ */
+export interface VisionCacheEntry {
+  provider: string; // provider that answered (may be a fallback)
+  model: string;
+  stream: boolean;
+  body: string; // upstream JSON, or the SSE text for streamed requests
+  structured?: unknown; // validated structured output, when requested
+  createdAt: string; // ISO 8601 format
+}
+
+export type VisionJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * Asynchronous vision request (`POST /v1/vision/jobs`), processed from the KV queue.
+ */
+export interface VisionJob {
+  id: string;
+  userId?: string;
+  status: VisionJobStatus;
+  callbackUrl?: string;
+  result?: unknown; // upstream JSON response (plus `structured` output when requested)
+  error?: { code: string; message: string; status: number };
+  provider?: string;
+  model?: string;
+  webhook?: {
+    attempts: number;
+    delivered: boolean;
+    lastStatus?: number;
+    lastError?: string;
+    deliveredAt?: string; // ISO 8601 format
+  };
+  createdAt: string; // ISO 8601 format
+  updatedAt: string; // ISO 8601 format
+  startedAt?: string; // ISO 8601 format
+  completedAt?: string; // ISO 8601 format
+  expiresAt: string; // ISO 8601 format; the KV entry is removed after this
+}
+
+/**
+ * Usage counters for one user, provider and model on one UTC day.
+ */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  images: number;
+}
+
+export interface UsageEntry extends UsageTotals {
+  date: string; // YYYY-MM-DD (UTC)
+  userId: string;
+  provider: string;
+  model: string;
+  updatedAt: string; // ISO 8601 format
+}
@@ -0,0 +1,104 @@
+/**
+ * Usage metering in KV: per-request provider usage aggregated by UTC day, user, provider
+ * and model, plus a monthly token counter per user for quota checks.
+ *
+ * Config (env):
+ * - USAGE_RETENTION_DAYS: how long daily aggregates are kept (default 400)
+ */
+
+import { addUsageTotals, emptyUsageTotals, nextMonthStart, usageDay, usageDays, usageMonth } from "../utils/usage_report.ts";
+import type { UsageEntry } from "./types.ts";
+
+const kv = await Deno.openKv();
+
+const DEFAULT_RETENTION_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Monthly counters only serve quota checks for the current month
+const MONTHLY_RETENTION_MS = 62 * DAY_MS;
+const MAX_COMMIT_ATTEMPTS = 5;
+
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+}
+
+export type QuotaCheck =
+  | { ok: true; used: number }
+  | { ok: false; used: number; quota: number; resetAt: string };
+
+function getRetentionMs(): number {
+  const value = Number(Deno.env.get("USAGE_RETENTION_DAYS"));
+  return (Number.isFinite(value) && value >= 1 ? Math.floor(value) : DEFAULT_RETENTION_DAYS) * DAY_MS;
+}
+
+/**
+ * Adds one request to the daily aggregate and the monthly token counter of a user.
+ *
+ * @throws Will throw an error if the counters stay contended after several attempts.
+ */
+export async function recordUsage(userId: string, record: UsageRecord, now = new Date()): Promise<void> {
+  const date = usageDay(now);
+  const dailyKey = ["usage_daily", date, userId, record.provider, record.model];
+  const monthlyKey = ["usage_monthly", usageMonth(now), userId];
+  const tokens = record.promptTokens + record.completionTokens;
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const [daily, monthly] = await kv.getMany<[UsageEntry, number]>([dailyKey, monthlyKey]);
+    const entry: UsageEntry = {
+      ...addUsageTotals(daily.value ?? emptyUsageTotals(), {
+        requests: 1,
+        promptTokens: record.promptTokens,
+        completionTokens: record.completionTokens,
+        totalTokens: tokens,
+        images: record.images,
+      }),
+      date,
+      userId,
+      provider: record.provider,
+      model: record.model,
+      updatedAt: now.toISOString(),
+    };
+    const res = await kv.atomic()
+      .check(daily, monthly)
+      .set(dailyKey, entry, { expireIn: getRetentionMs() })
+      .set(monthlyKey, (monthly.value ?? 0) + tokens, { expireIn: MONTHLY_RETENTION_MS })
+      .commit();
+    if (res.ok) return;
+  }
+  throw new Error("Failed to record usage: too many concurrent updates");
+}
+
+/**
+ * Tokens used by a user in the current UTC month.
+ */
+export async function getMonthlyTokens(userId: string, now = new Date()): Promise<number> {
+  return (await kv.get<number>(["usage_monthly", usageMonth(now), userId])).value ?? 0;
+}
+
+/**
+ * Whether the user is still below a monthly token quota. The check happens before a
+ * request, so the request that crosses the quota is allowed to finish.
+ */
+export async function checkUsageQuota(userId: string, quota: number | null, now = new Date()): Promise<QuotaCheck> {
+  const used = await getMonthlyTokens(userId, now);
+  if (quota === null || used < quota) return { ok: true, used };
+  return { ok: false, used, quota, resetAt: nextMonthStart(now).toISOString() };
+}
+
+/**
+ * Daily aggregates between two dates (inclusive, YYYY-MM-DD), optionally for one user,
+ * ordered by date, user, provider and model.
+ */
+export async function listUsage(from: string, to: string, userId?: string): Promise<UsageEntry[]> {
+  const entries: UsageEntry[] = [];
+  for (const day of usageDays(from, to)) {
+    const prefix = userId ? ["usage_daily", day, userId] : ["usage_daily", day];
+    for await (const entry of kv.list<UsageEntry>({ prefix })) {
+      entries.push(entry.value);
+    }
+  }
+  return entries;
+}
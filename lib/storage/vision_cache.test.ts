@@ -0,0 +1,52 @@
+/**
+ * Tests for the vision response cache.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  getCachedVisionResponse,
+  getVisionCacheKey,
+  parseCachePolicy,
+  setCachedVisionResponse,
+} from "./vision_cache.ts";
+import type { VisionCacheEntry } from "./types.ts";
+
+const INPUT = { provider: "zai", prompt: "Describe", image_url: "https://example.com/a.png" };
+
+Deno.test("parseCachePolicy - no-cache refreshes, no-store bypasses", () => {
+  assertEquals(parseCachePolicy(null), { read: true, write: true });
+  assertEquals(parseCachePolicy("max-age=0, No-Cache"), { read: false, write: true });
+  assertEquals(parseCachePolicy("no-cache, no-store"), { read: false, write: false });
+});
+
+Deno.test("getVisionCacheKey - stable for identical requests, distinct per response kind", async () => {
+  const key = await getVisionCacheKey(INPUT, false);
+  assertEquals(await getVisionCacheKey({ ...INPUT }, false), key);
+  assertEquals(key.length, 64);
+  const variants = [
+    await getVisionCacheKey(INPUT, true),
+    await getVisionCacheKey({ ...INPUT, prompt: "Describe it" }, false),
+    await getVisionCacheKey({ ...INPUT, response_format: { type: "json_object" } }, false),
+    await getVisionCacheKey({ ...INPUT, json_schema: { type: "object" } }, false),
+    await getVisionCacheKey({ ...INPUT, json_schema: { type: "array" } }, false),
+  ];
+  assertEquals(new Set([key, ...variants]).size, variants.length + 1);
+});
+
+Deno.test("setCachedVisionResponse - replays stored entries and skips oversized ones", async () => {
+  const key = `test-${crypto.randomUUID()}`;
+  const entry: VisionCacheEntry = {
+    provider: "zai",
+    model: "glm-4.6v-flash",
+    stream: true,
+    body: 'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: [DONE]\n\n',
+    createdAt: new Date().toISOString(),
+  };
+  assertEquals(await getCachedVisionResponse(key), null);
+  assertEquals(await setCachedVisionResponse(key, entry), true);
+  assertEquals(await getCachedVisionResponse(key), entry);
+
+  const largeKey = `test-${crypto.randomUUID()}`;
+  assertEquals(await setCachedVisionResponse(largeKey, { ...entry, body: "x".repeat(64 * 1024) }), false);
+  assertEquals(await getCachedVisionResponse(largeKey), null);
+});
@@ -0,0 +1,71 @@
+/**
+ * Opt-in KV cache of vision responses, keyed by a hash of the provider payload
+ * (model, messages, params) built for the first provider of the chain and the structured output spec.
+ *
+ * Config (env):
+ * - VISION_CACHE: set to 1 to cache requests by default (per request: `cache`)
+ * - VISION_CACHE_TTL_SEC: lifetime of cached responses (default 86400)
+ */
+
+import { buildVisionPayload } from "../providers/payload.ts";
+import type { VisionInput } from "../providers/payload.ts";
+import { resolveProviderChain } from "../providers/failover.ts";
+import { getStructuredSpec } from "../providers/structured.ts";
+import { sha256Hex } from "../utils/hash.ts";
+import type { VisionCacheEntry } from "./types.ts";
+
+const kv = await Deno.openKv();
+
+const DEFAULT_TTL_SEC = 24 * 60 * 60;
+// Deno KV values are limited to 64 KiB; larger responses are not cached.
+const MAX_ENTRY_BYTES = 60 * 1024;
+
+export type CachePolicy = { read: boolean; write: boolean };
+
+/**
+ * Whether a request uses the cache: the `cache` field, otherwise VISION_CACHE.
+ */
+export function isVisionCacheEnabled(input: VisionInput): boolean {
+  return input.cache ?? Deno.env.get("VISION_CACHE") === "1";
+}
+
+export function getVisionCacheTtlSec(): number {
+  const value = Number(Deno.env.get("VISION_CACHE_TTL_SEC"));
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : DEFAULT_TTL_SEC;
+}
+
+/**
+ * Request Cache-Control: `no-cache` skips the lookup but refreshes the entry, `no-store` skips both.
+ */
+export function parseCachePolicy(cacheControl: string | null): CachePolicy {
+  const directives = (cacheControl ?? "").toLowerCase().split(",").map((d) => d.trim());
+  if (directives.includes("no-store")) return { read: false, write: false };
+  return { read: !directives.includes("no-cache"), write: true };
+}
+
+/**
+ * Cache key for a request: the final payload of the primary provider plus the response kind.
+ * The structured spec is part of the key because providers without schema support do not
+ * forward `response_format`, so the payload alone cannot tell structured requests apart.
+ */
+export async function getVisionCacheKey(input: VisionInput, stream: boolean): Promise<string> {
+  const provider = resolveProviderChain(input)[0];
+  const { payload } = buildVisionPayload({ ...input, provider });
+  const spec = getStructuredSpec(input);
+  const structured = spec.ok ? spec.spec : null;
+  return await sha256Hex(JSON.stringify({ provider, stream, structured, payload }));
+}
+
+export async function getCachedVisionResponse(key: string): Promise<VisionCacheEntry | null> {
+  const entry = await kv.get<VisionCacheEntry>(["vision_cache", key]);
+  return entry.value;
+}
+
+/**
+ * Stores a response for the TTL. Returns false when it is too large for KV.
+ */
+export async function setCachedVisionResponse(key: string, entry: VisionCacheEntry): Promise<boolean> {
+  if (new TextEncoder().encode(JSON.stringify(entry)).length > MAX_ENTRY_BYTES) return false;
+  await kv.set(["vision_cache", key], entry, { expireIn: getVisionCacheTtlSec() * 1000 });
+  return true;
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for normalized SSE stream.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createNormalizedStream, estimateStreamUsage, findStreamUsage } from "./sse.ts";
+
+const META = { provider: "zai", model: "glm-4.6v-flash", requestId: "req-1" };
+
+function upstreamFrom(chunks: string[], failAfter = false): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const queue = [...chunks];
+  return new ReadableStream({
+    pull(controller) {
+      const chunk = queue.shift();
+      if (chunk !== undefined) controller.enqueue(encoder.encode(chunk));
+      else if (failAfter) controller.error(new Error("connection reset"));
+      else controller.close();
+    },
+  });
+}
+
+async function readEvents(stream: ReadableStream<Uint8Array>): Promise<Array<{ event: string; data: unknown }>> {
+  const text = await new Response(stream).text();
+  return text.trim().split("\n\n").map((block) => {
+    const lines = block.split("\n");
+    return {
+      event: lines[0].replace("event: ", ""),
+      data: JSON.parse(lines[1].replace("data: ", "")),
+    };
+  });
+}
+
+Deno.test("createNormalizedStream - re-emits typed events", async () => {
+  const delta = (d: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+    `data: ${JSON.stringify({ choices: [{ delta: d, ...extra }] })}\n\n`;
+  const events = await readEvents(createNormalizedStream(upstreamFrom([
+    delta({ reasoning_content: "thinking" }),
+    // chunk boundary inside a line
+    delta({ content: "Hel" }).slice(0, 20),
+    delta({ content: "Hel" }).slice(20),
+    delta({ content: "lo" }, { finish_reason: "stop" }),
+    `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } })}\n\n`,
+    "data: [DONE]\n\n",
+  ]), META));
+
+  assertEquals(events.map((e) => e.event), ["meta", "reasoning", "delta", "delta", "usage", "done"]);
+  assertEquals(events[0].data, { provider: "zai", model: "glm-4.6v-flash", request_id: "req-1", prompt_meta: null });
+  assertEquals(events[2].data, { text: "Hel" });
+  assertEquals(events[4].data, { prompt_tokens: 5, completion_tokens: 2 });
+  assertEquals(events[5].data, { finish_reason: "stop" });
+});
+
+Deno.test("createNormalizedStream - chunks without events do not stall the stream", async () => {
+  const chunk = (value: Record<string, unknown>) => `data: ${JSON.stringify(value)}\n\n`;
+  const events = await readEvents(createNormalizedStream(upstreamFrom([
+    chunk({ choices: [{ delta: { role: "assistant" } }] }),
+    "data: keep-alive\n\n",
+    chunk({ choices: [{ delta: { content: "Hi" } }] }),
+    chunk({ choices: [{ delta: {}, finish_reason: "stop" }] }),
+    "data: [DONE]\n\n",
+  ]), META));
+
+  assertEquals(events.map((e) => e.event), ["meta", "delta", "done"]);
+  assertEquals(events[2].data, { finish_reason: "stop" });
+});
+
+Deno.test("createNormalizedStream - an empty finish chunk before the end of the body finishes the stream", async () => {
+  const events = await readEvents(createNormalizedStream(upstreamFrom([
+    `data: ${JSON.stringify({ choices: [{ delta: { role: "assistant" } }] })}\n\n`,
+    `data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: "length" }] })}\n\n`,
+  ]), META));
+
+  assertEquals(events.map((e) => e.event), ["meta", "done"]);
+  assertEquals(events[1].data, { finish_reason: "length" });
+});
+
+Deno.test("createNormalizedStream - upstream failure ends with error event", async () => {
+  const events = await readEvents(createNormalizedStream(upstreamFrom([
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "Hi" } }] })}\n\n`,
+  ], true), META));
+
+  assertEquals(events.map((e) => e.event), ["meta", "delta", "error"]);
+  assertEquals((events[2].data as { message: string }).message, "connection reset");
+});
+
+Deno.test("findStreamUsage - last usage chunk of a buffered stream", () => {
+  const text = [
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "Hi" } }] })}`,
+    `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 1 } })}`,
+    `data: ${JSON.stringify({ choices: [], usage: { input_tokens: 7, output_tokens: 3 } })}`,
+    "data: [DONE]",
+    "",
+  ].join("\n");
+  assertEquals(findStreamUsage(text), { prompt_tokens: 7, completion_tokens: 3 });
+  assertEquals(findStreamUsage("data: [DONE]\n"), null);
+});
+
+Deno.test("estimateStreamUsage - about four characters per completion token", () => {
+  const text = [
+    `data: ${JSON.stringify({ choices: [{ delta: { reasoning_content: "Look" } }] })}`,
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "A red car." } }] })}`,
+    "data: [DONE]",
+    "",
+  ].join("\n");
+  assertEquals(estimateStreamUsage(text), { prompt_tokens: 0, completion_tokens: 4 });
+});
@@ -3,12 +3,25 @@
  */
 
 import { getCorsHeaders } from "../utils/cors.ts";
+import { contentToText, extractReasoning, normalizeUsage, stripBoxMarkers } from "../providers/normalize.ts";
+import type { NormalizedUsage, NormalizeMeta } from "../providers/normalize.ts";
+
+const SSE_HEADERS: Record<string, string> = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  "Connection": "keep-alive",
+  "X-Accel-Buffering": "no",
+};
 
 /**
  * Passthrough SSE stream from upstream provider
  * No timeout limitations on Deno Deploy!
  */
-export function passthroughSSE(req: Request, upstreamResponse: Response): Response {
+export function passthroughSSE(
+  req: Request,
+  upstreamResponse: Response,
+  headers?: Record<string, string>,
+): Response {
   if (!upstreamResponse.body) {
     throw new Error("Upstream response has no body");
   }
@@ -16,11 +29,9 @@ export function passthroughSSE(req: Request, upstreamResponse: Response): Respon
   return new Response(upstreamResponse.body, {
     status: 200,
     headers: {
-      "Content-Type": "text/event-stream; charset=utf-8",
-      "Cache-Control": "no-cache, no-transform",
-      "Connection": "keep-alive",
-      "X-Accel-Buffering": "no",
+      ...SSE_HEADERS,
       ...getCorsHeaders(req),
+      ...(headers ?? {}),
     },
   });
 }
@@ -34,3 +45,179 @@ export function sseEvent(event: string | null, data: unknown): string {
   output += `data: ${JSON.stringify(data)}\n\n`;
   return output;
 }
+
+/**
+ * Re-encode an upstream OpenAI-style chunk stream as typed events:
+ * `meta`, `delta`, `reasoning`, `usage`, `done` and `error`.
+ * Upstream failures mid-stream end with an `error` event instead of a dropped connection.
+ */
+export function createNormalizedStream(
+  upstream: ReadableStream<Uint8Array>,
+  meta: NormalizeMeta,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const reader = upstream.getReader();
+  let buffer = "";
+  let finishReason: string | null = null;
+  let finished = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(sseEvent("meta", {
+        provider: meta.provider,
+        model: meta.model,
+        request_id: meta.requestId,
+        prompt_meta: meta.promptMeta ?? null,
+      })));
+    },
+
+    async pull(controller) {
+      // The stream only pulls again after an enqueue, so keep reading until an event is out
+      let emitted = false;
+      const emit = (event: string, data: unknown) => {
+        emitted = true;
+        controller.enqueue(encoder.encode(sseEvent(event, data)));
+      };
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        emit("done", { finish_reason: finishReason });
+        controller.close();
+        reader.cancel().catch(() => {});
+      };
+      const fail = (message: string, details?: unknown) => {
+        if (finished) return;
+        finished = true;
+        emit("error", { code: "UPSTREAM_STREAM_ERROR", message, request_id: meta.requestId, details });
+        controller.close();
+        reader.cancel().catch(() => {});
+      };
+
+      const handleData = (data: string) => {
+        if (data === "[DONE]") {
+          finish();
+          return;
+        }
+        let chunk: Record<string, unknown>;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          return; // ignore non-JSON data lines
+        }
+        if (chunk.error) {
+          const err = chunk.error as Record<string, unknown>;
+          fail(typeof err.message === "string" ? err.message : "Upstream error", chunk.error);
+          return;
+        }
+        const choices = Array.isArray(chunk.choices) ? chunk.choices : [];
+        const choice = (choices[0] ?? {}) as Record<string, unknown>;
+        const delta = (choice.delta ?? {}) as Record<string, unknown>;
+
+        const reasoning = extractReasoning(delta);
+        if (reasoning) emit("reasoning", { text: reasoning });
+
+        const text = stripBoxMarkers(contentToText(delta.content));
+        if (text) emit("delta", { text });
+
+        if (typeof choice.finish_reason === "string") finishReason = choice.finish_reason;
+
+        const usage = normalizeUsage(chunk.usage);
+        if (usage) emit("usage", usage);
+      };
+
+      try {
+        while (!finished) {
+          const newline = buffer.indexOf("\n");
+          if (newline >= 0) {
+            const line = buffer.slice(0, newline).replace(/\r$/, "");
+            buffer = buffer.slice(newline + 1);
+            if (line.startsWith("data:")) {
+              handleData(line.slice(5).trim());
+              // Yield after each event so events reach the client as they arrive
+              if (emitted) return;
+            }
+            continue;
+          }
+
+          const { done, value } = await reader.read();
+          if (done) {
+            buffer += decoder.decode();
+            if (buffer.trim().startsWith("data:")) handleData(buffer.trim().slice(5).trim());
+            buffer = "";
+            finish();
+            return;
+          }
+          buffer += decoder.decode(value, { stream: true });
+        }
+      } catch (error) {
+        fail(error instanceof Error ? error.message : String(error));
+      }
+    },
+
+    cancel(reason) {
+      finished = true;
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Last usage reported in the `data:` lines of a buffered upstream SSE stream, if any.
+ */
+export function findStreamUsage(text: string): NormalizedUsage | null {
+  let usage: NormalizedUsage | null = null;
+  for (const line of text.split("\n")) {
+    if (!line.startsWith("data:")) continue;
+    const data = line.slice(5).trim();
+    if (data === "[DONE]" || !data.includes("usage")) continue;
+    try {
+      usage = normalizeUsage(JSON.parse(data).usage) ?? usage;
+    } catch {
+      // ignore non-JSON data lines
+    }
+  }
+  return usage;
+}
+
+/**
+ * Rough usage of a buffered stream whose upstream reported none: about 4 characters per
+ * completion token (content and reasoning); prompt tokens are unknown.
+ */
+export function estimateStreamUsage(text: string): NormalizedUsage {
+  let chars = 0;
+  for (const line of text.split("\n")) {
+    if (!line.startsWith("data:")) continue;
+    try {
+      const chunk = JSON.parse(line.slice(5).trim());
+      const delta = chunk?.choices?.[0]?.delta ?? {};
+      chars += contentToText(delta.content).length + (extractReasoning(delta)?.length ?? 0);
+    } catch {
+      // ignore non-JSON data lines
+    }
+  }
+  return { prompt_tokens: 0, completion_tokens: Math.ceil(chars / 4) };
+}
+
+/**
+ * Normalized SSE response with typed events (see createNormalizedStream).
+ */
+export function normalizedSSE(
+  req: Request,
+  upstreamResponse: Response,
+  meta: NormalizeMeta,
+  headers?: Record<string, string>,
+): Response {
+  if (!upstreamResponse.body) {
+    throw new Error("Upstream response has no body");
+  }
+
+  return new Response(createNormalizedStream(upstreamResponse.body, meta), {
+    status: 200,
+    headers: {
+      ...SSE_HEADERS,
+      ...getCorsHeaders(req),
+      ...(headers ?? {}),
+    },
+  });
+}
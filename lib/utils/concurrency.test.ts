@@ -0,0 +1,41 @@
+/**
+ * Tests for bounded-concurrency helpers.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { mapWithConcurrency } from "./concurrency.ts";
+
+const tick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test("mapWithConcurrency - bounds in-flight calls and keeps input order", async () => {
+  let inFlight = 0;
+  let peak = 0;
+  const completed: number[] = [];
+  const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async (ms, index) => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await tick(ms);
+    inFlight--;
+    return index * 10;
+  }, { onResult: (_result, index) => completed.push(index) });
+
+  assertEquals(results, [0, 10, 20, 30, 40]);
+  assertEquals(peak, 2);
+  assertEquals(completed.length, 5);
+  assertEquals(completed[0], 1);
+});
+
+Deno.test("mapWithConcurrency - stops starting items once aborted", async () => {
+  const controller = new AbortController();
+  const started: number[] = [];
+  const results = await mapWithConcurrency([1, 2, 3, 4], 1, async (value, index) => {
+    started.push(index);
+    if (index === 1) controller.abort();
+    await tick(1);
+    return value;
+  }, { signal: controller.signal });
+
+  assertEquals(started, [0, 1]);
+  assertEquals(results, [1, 2, undefined, undefined]);
+  assertEquals(await mapWithConcurrency([], 4, () => Promise.resolve(1)), []);
+});
@@ -0,0 +1,35 @@
+/**
+ * Bounded-concurrency helpers.
+ */
+
+export type MapConcurrentOptions<R> = {
+  /** Called as each item finishes, in completion order */
+  onResult?: (result: R, index: number) => void;
+  /** Once aborted, no further items are started; skipped items stay undefined */
+  signal?: AbortSignal;
+};
+
+/**
+ * Map `items` with at most `limit` calls of `fn` in flight. Results keep input order.
+ * A rejection from `fn` rejects the whole map, so callers should capture per-item errors.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  opts: MapConcurrentOptions<R> = {},
+): Promise<R[]> {
+  // Filled with undefined rather than holes, so skipped items are real undefined entries
+  const results = Array.from({ length: items.length }) as R[];
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !opts.signal?.aborted) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+      opts.onResult?.(results[index], index);
+    }
+  };
+  const workers = Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
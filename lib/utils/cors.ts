@@ -23,6 +23,7 @@ export function getCorsHeaders(req: Request): Record<string, string> {
   const headers: Record<string, string> = {
     "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
     "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Admin-Token, X-Nonce",
+    "Access-Control-Expose-Headers": "X-Request-Id, X-Vision-Provider, X-Vision-Model, X-Vision-Attempts, X-Cache, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
     "Access-Control-Max-Age": "86400",
   };
 
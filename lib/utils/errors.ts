@@ -11,6 +11,16 @@ export interface ErrorResponse {
   details?: unknown;
 }
 
+/**
+ * Error returned by an upstream provider with a non-2xx HTTP status.
+ */
+export class UpstreamError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
 export function errorResponse(
   req: Request,
   opts: {
@@ -19,6 +29,7 @@ export function errorResponse(
     status?: number;
     details?: unknown;
     requestId?: string;
+    headers?: Record<string, string>;
   }
 ): Response {
   const body: ErrorResponse = {
@@ -37,6 +48,7 @@ export function errorResponse(
       "Content-Type": "application/json; charset=utf-8",
       "X-Request-Id": body.request_id!,
       ...getCorsHeaders(req),
+      ...(opts.headers ?? {}),
     },
   });
 }
@@ -44,13 +56,15 @@ export function errorResponse(
 export function jsonResponse(
   req: Request,
   data: unknown,
-  status = 200
+  status = 200,
+  headers?: Record<string, string>
 ): Response {
   return new Response(JSON.stringify(data), {
     status,
     headers: {
       "Content-Type": "application/json; charset=utf-8",
       ...getCorsHeaders(req),
+      ...(headers ?? {}),
     },
   });
 }
@@ -0,0 +1,92 @@
+/**
+ * Tests for EXIF parsing and stripping.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { jpegImageDataOffset, readJpegExif, stripJpegMetadata } from "./exif.ts";
+import { sniffImageInfo } from "./image.ts";
+
+function u16(value: number): number[] {
+  return [value & 0xff, value >> 8];
+}
+
+function u32(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+}
+
+function ascii(value: string): number[] {
+  return Array.from(value, (c) => c.charCodeAt(0));
+}
+
+function entry(tag: number, type: number, count: number, value: number[]): number[] {
+  return [...u16(tag), ...u16(type), ...u32(count), ...value, ...new Array(4 - value.length).fill(0)];
+}
+
+/**
+ * Little-endian TIFF: IFD0 (Make, Orientation, ExifIFD, GPS) -> ExifIFD (DateTimeOriginal) -> GPS IFD (lat ref, lat).
+ */
+function buildTiff(orientation: number): number[] {
+  return [
+    ...ascii("II"), ...u16(42), ...u32(8),
+    ...u16(4),
+    ...entry(0x010f, 2, 6, u32(62)),
+    ...entry(0x0112, 3, 1, u16(orientation)),
+    ...entry(0x8769, 4, 1, u32(68)),
+    ...entry(0x8825, 4, 1, u32(106)),
+    ...u32(0),
+    ...ascii("Canon\0"),
+    ...u16(1), ...entry(0x9003, 2, 20, u32(86)), ...u32(0),
+    ...ascii("2024:05:17 14:03:22\0"),
+    ...u16(2), ...entry(0x0001, 2, 2, ascii("N\0")), ...entry(0x0002, 5, 3, u32(136)), ...u32(0),
+    ...u32(55), ...u32(1), ...u32(45), ...u32(1), ...u32(30), ...u32(1),
+  ];
+}
+
+function buildJpeg(orientation: number): Uint8Array {
+  const app1 = [...ascii("Exif\0\0"), ...buildTiff(orientation)];
+  const xmp = ascii("http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>");
+  // SOF0 for a 400x300 image
+  const sof = [0xff, 0xc0, 0x00, 0x0b, 0x08, 0x01, 0x2c, 0x01, 0x90, 0x01, 0x01, 0x11, 0x00];
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, (app1.length + 2) >> 8, (app1.length + 2) & 0xff, ...app1,
+    0xff, 0xe1, 0x00, xmp.length + 2, ...xmp,
+    ...sof,
+    0xff, 0xd9,
+  ]);
+}
+
+Deno.test("readJpegExif - orientation, capture time, camera and GPS", () => {
+  assertEquals(readJpegExif(buildJpeg(6)), {
+    hasGps: true,
+    make: "Canon",
+    orientation: 6,
+    capturedAt: "2024-05-17T14:03:22",
+  });
+  assertEquals(readJpegExif(new Uint8Array([0xff, 0xd8, 0xff, 0xd9])), null);
+});
+
+Deno.test("stripJpegMetadata - gps clears location and keeps other tags", () => {
+  const original = buildJpeg(6);
+  const stripped = stripJpegMetadata(original, "gps");
+  const exif = readJpegExif(stripped);
+  assertEquals(exif?.hasGps, false);
+  assertEquals(exif?.make, "Canon");
+  assertEquals(new TextDecoder().decode(stripped).includes("xmpmeta"), false);
+  assertEquals(sniffImageInfo(stripped), { width: 400, height: 300, format: "jpeg" });
+});
+
+Deno.test("stripJpegMetadata - all keeps only the orientation", () => {
+  const stripped = stripJpegMetadata(buildJpeg(8), "all");
+  assertEquals(readJpegExif(stripped), { hasGps: false, orientation: 8 });
+  assertEquals(readJpegExif(stripJpegMetadata(buildJpeg(1), "all")), null);
+  assertEquals(sniffImageInfo(stripped)?.width, 400);
+});
+
+Deno.test("jpegImageDataOffset - needs every metadata segment before the image data", () => {
+  const jpeg = buildJpeg(1);
+  const withScan = new Uint8Array([...jpeg.subarray(0, jpeg.length - 2), 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+  assertEquals(jpegImageDataOffset(withScan), jpeg.length - 2);
+  assertEquals(jpegImageDataOffset(withScan.subarray(0, 40)), null);
+  assertEquals(jpegImageDataOffset(new Uint8Array([0x89, 0x50, 0x4e, 0x47])), null);
+});
@@ -0,0 +1,280 @@
+/**
+ * EXIF metadata for JPEG images: orientation, capture time, camera and GPS presence,
+ * plus in-place stripping of GPS data or all metadata before storage.
+ *
+ * Config (env):
+ * - IMAGE_STRIP_METADATA: default strip mode for uploads and vision images: none | gps | all (default none)
+ */
+
+export type ExifInfo = {
+  /** EXIF orientation 1-8 (1 = upright) */
+  orientation?: number;
+  /** DateTimeOriginal (or DateTime) as local ISO time without timezone */
+  capturedAt?: string;
+  make?: string;
+  model?: string;
+  hasGps: boolean;
+};
+
+export type StripMode = "none" | "gps" | "all";
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+// Byte sizes of TIFF field types (BYTE, ASCII, SHORT, LONG, RATIONAL, ..., DOUBLE)
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+type Segment = { marker: number; start: number; dataStart: number; end: number };
+type IfdEntry = { tag: number; type: number; count: number; entryOffset: number; valueOffset: number; size: number };
+
+/**
+ * Parse the strip mode option (form field or env value).
+ */
+export function parseStripMode(value: unknown): StripMode | undefined {
+  if (typeof value !== "string") return undefined;
+  const mode = value.trim().toLowerCase();
+  return mode === "none" || mode === "gps" || mode === "all" ? mode : undefined;
+}
+
+export function getDefaultStripMode(): StripMode {
+  return parseStripMode(Deno.env.get("IMAGE_STRIP_METADATA")) ?? "none";
+}
+
+/**
+ * Whether the orientation swaps width and height (rotated by 90 or 270 degrees).
+ */
+export function isTransposedOrientation(orientation: number | undefined): boolean {
+  return orientation !== undefined && orientation >= 5 && orientation <= 8;
+}
+
+/**
+ * Read EXIF metadata from JPEG bytes.
+ * Returns null if the image is not a JPEG or has no EXIF segment.
+ */
+export function readJpegExif(bytes: Uint8Array): ExifInfo | null {
+  const segment = findSegments(bytes).find((s) => isExifSegment(bytes, s));
+  if (!segment) return null;
+  const tiff = openTiff(bytes, segment);
+  if (!tiff) return null;
+
+  const info: ExifInfo = { hasGps: false };
+  for (const entry of tiff.readIfd(tiff.ifd0)) {
+    if (entry.tag === TAG_ORIENTATION) {
+      const value = tiff.u16(entry.valueOffset);
+      if (value >= 1 && value <= 8) info.orientation = value;
+    } else if (entry.tag === TAG_MAKE) {
+      info.make = tiff.ascii(entry) || undefined;
+    } else if (entry.tag === TAG_MODEL) {
+      info.model = tiff.ascii(entry) || undefined;
+    } else if (entry.tag === TAG_DATETIME && !info.capturedAt) {
+      info.capturedAt = toIsoTime(tiff.ascii(entry));
+    } else if (entry.tag === TAG_EXIF_IFD) {
+      const original = tiff.readIfd(tiff.u32(entry.valueOffset)).find((e) => e.tag === TAG_DATETIME_ORIGINAL);
+      const capturedAt = original ? toIsoTime(tiff.ascii(original)) : undefined;
+      if (capturedAt) info.capturedAt = capturedAt;
+    } else if (entry.tag === TAG_GPS_IFD) {
+      info.hasGps = tiff.readIfd(tiff.u32(entry.valueOffset)).length > 0;
+    }
+  }
+  return info;
+}
+
+/**
+ * Remove metadata from JPEG bytes.
+ * - "gps": clears the EXIF GPS IFD in place and drops XMP (which may repeat the location)
+ * - "all": drops EXIF, XMP and IPTC segments, keeping only the orientation so the image still displays upright
+ * Non-JPEG input is returned unchanged.
+ */
+export function stripJpegMetadata(bytes: Uint8Array, mode: StripMode): Uint8Array {
+  if (mode === "none") return bytes;
+  const segments = findSegments(bytes);
+  if (segments.length === 0) return bytes;
+
+  if (mode === "gps") {
+    const out = bytes.slice();
+    const exif = segments.find((s) => isExifSegment(out, s));
+    if (exif) clearGps(out, exif);
+    return removeSegments(out, segments.filter((s) => isXmpSegment(out, s)));
+  }
+
+  const orientation = readJpegExif(bytes)?.orientation;
+  const removed = segments.filter((s) => isExifSegment(bytes, s) || isXmpSegment(bytes, s) || s.marker === 0xed);
+  const stripped = removeSegments(bytes, removed);
+  return orientation && orientation !== 1 ? setJpegOrientation(stripped, orientation) : stripped;
+}
+
+/**
+ * Replace any EXIF segment of a JPEG with a minimal one that only holds the orientation.
+ * Used after stripping or re-encoding, which would otherwise lose the rotation.
+ */
+export function setJpegOrientation(bytes: Uint8Array, orientation: number): Uint8Array {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return bytes;
+  const stripped = removeSegments(bytes, findSegments(bytes).filter((s) => isExifSegment(bytes, s)));
+  // Insert right after SOI
+  const app1 = buildOrientationSegment(orientation);
+  const out = new Uint8Array(stripped.length + app1.length);
+  out.set(stripped.subarray(0, 2));
+  out.set(app1, 2);
+  out.set(stripped.subarray(2), 2 + app1.length);
+  return out;
+}
+
+/**
+ * Offset of the image data (SOS) when every metadata segment before it is within `bytes`, else null.
+ * A streamed JPEG can be stripped once its head reaches this point.
+ */
+export function jpegImageDataOffset(bytes: Uint8Array): number | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 2 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) return offset;
+    if (offset + 4 > bytes.length) return null;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2) return null;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function findSegments(bytes: Uint8Array): Segment[] {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return [];
+  const segments: Segment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Image data starts at SOS; metadata segments come before it
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2 || offset + 2 + length > bytes.length) break;
+    segments.push({ marker, start: offset, dataStart: offset + 4, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return segments;
+}
+
+function hasPrefix(bytes: Uint8Array, offset: number, prefix: string): boolean {
+  if (offset + prefix.length > bytes.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[offset + i] !== prefix.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+function isExifSegment(bytes: Uint8Array, segment: Segment): boolean {
+  return segment.marker === 0xe1 && hasPrefix(bytes, segment.dataStart, EXIF_HEADER);
+}
+
+function isXmpSegment(bytes: Uint8Array, segment: Segment): boolean {
+  return segment.marker === 0xe1 && hasPrefix(bytes, segment.dataStart, XMP_HEADER);
+}
+
+function removeSegments(bytes: Uint8Array, segments: Segment[]): Uint8Array {
+  if (segments.length === 0) return bytes;
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    parts.push(bytes.subarray(offset, segment.start));
+    offset = segment.end;
+  }
+  parts.push(bytes.subarray(offset));
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+/**
+ * TIFF structure inside an EXIF APP1 segment; offsets are relative to the TIFF header.
+ */
+function openTiff(bytes: Uint8Array, segment: Segment) {
+  const base = segment.dataStart + EXIF_HEADER.length;
+  const end = segment.end;
+  if (base + 8 > end) return null;
+  const order = String.fromCharCode(bytes[base], bytes[base + 1]);
+  if (order !== "II" && order !== "MM") return null;
+  const little = order === "II";
+
+  const u16 = (offset: number) => {
+    const at = base + offset;
+    return little ? bytes[at] | (bytes[at + 1] << 8) : (bytes[at] << 8) | bytes[at + 1];
+  };
+  const u32 = (offset: number) => {
+    const at = base + offset;
+    return little
+      ? (bytes[at + 3] * 2 ** 24) + (bytes[at + 2] << 16) + (bytes[at + 1] << 8) + bytes[at]
+      : (bytes[at] * 2 ** 24) + (bytes[at + 1] << 16) + (bytes[at + 2] << 8) + bytes[at + 3];
+  };
+  const inBounds = (offset: number, size: number) => offset >= 0 && base + offset + size <= end;
+
+  const readIfd = (offset: number): IfdEntry[] => {
+    if (!inBounds(offset, 2)) return [];
+    const count = u16(offset);
+    if (!inBounds(offset, 2 + count * 12)) return [];
+    const entries: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      const type = u16(entryOffset + 2);
+      const valueCount = u32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      // Values up to 4 bytes are stored inline, larger ones at an offset
+      const valueOffset = size <= 4 ? entryOffset + 8 : u32(entryOffset + 8);
+      if (!inBounds(valueOffset, size)) continue;
+      entries.push({ tag: u16(entryOffset), type, count: valueCount, entryOffset, valueOffset, size });
+    }
+    return entries;
+  };
+
+  const ascii = (entry: IfdEntry) => {
+    const start = base + entry.valueOffset;
+    return String.fromCharCode(...bytes.subarray(start, start + entry.size)).replace(/\0+$/, "").trim();
+  };
+
+  return { base, ifd0: u32(4), u16, u32, readIfd, ascii };
+}
+
+function clearGps(bytes: Uint8Array, segment: Segment): void {
+  const tiff = openTiff(bytes, segment);
+  if (!tiff) return;
+  const pointer = tiff.readIfd(tiff.ifd0).find((e) => e.tag === TAG_GPS_IFD);
+  if (!pointer) return;
+
+  const gpsOffset = tiff.u32(pointer.valueOffset);
+  const entries = tiff.readIfd(gpsOffset);
+  // Zero out-of-line values first, then the entries, and leave an empty IFD behind
+  for (const entry of entries) {
+    if (entry.size > 4) bytes.fill(0, tiff.base + entry.valueOffset, tiff.base + entry.valueOffset + entry.size);
+  }
+  const count = tiff.u16(gpsOffset);
+  bytes.fill(0, tiff.base + gpsOffset, tiff.base + gpsOffset + 2 + count * 12);
+}
+
+function buildOrientationSegment(orientation: number): Uint8Array {
+  // APP1: "Exif\0\0" + big-endian TIFF header + IFD0 with a single SHORT Orientation entry
+  const tiff = [
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+    0x00, 0x01,
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00,
+  ];
+  const data = [...Array.from(EXIF_HEADER, (c) => c.charCodeAt(0)), ...tiff];
+  const length = data.length + 2;
+  return new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff, ...data]);
+}
+
+function toIsoTime(value: string): string | undefined {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return undefined;
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for image format sniffing.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { imageMimeType, sniffImageInfo, validateImageBytes } from "./image.ts";
+
+function bytes(...parts: Array<string | number[]>): Uint8Array {
+  const out: number[] = [];
+  for (const part of parts) {
+    if (typeof part === "string") out.push(...Array.from(part, (c) => c.charCodeAt(0)));
+    else out.push(...part);
+  }
+  return new Uint8Array(out);
+}
+
+function u32be(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function box(type: string, ...content: Array<string | number[]>): number[] {
+  const body = Array.from(bytes(...content));
+  return [...u32be(8 + body.length), ...Array.from(type, (c) => c.charCodeAt(0)), ...body];
+}
+
+Deno.test("sniffImageInfo - WebP lossy, lossless and extended", () => {
+  const vp8 = bytes("RIFF", [0, 0, 0, 0], "WEBP", "VP8 ", [0, 0, 0, 0], [0, 0, 0], [0x9d, 0x01, 0x2a], [0x20, 0x03, 0x58, 0x02]);
+  assertEquals(sniffImageInfo(vp8), { width: 800, height: 600, format: "webp" });
+
+  // width-1 = 399, height-1 = 299 packed as 14-bit fields
+  const bits = 399 | (299 << 14);
+  const vp8l = bytes("RIFF", [0, 0, 0, 0], "WEBP", "VP8L", [0, 0, 0, 0], [0x2f], [bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, bits >>> 24], [0]);
+  assertEquals(sniffImageInfo(vp8l), { width: 400, height: 300, format: "webp" });
+
+  const vp8x = bytes("RIFF", [0, 0, 0, 0], "WEBP", "VP8X", [10, 0, 0, 0], [0, 0, 0, 0], [0xff, 0x0f, 0x00], [0x37, 0x0b, 0x00], [0, 0]);
+  assertEquals(sniffImageInfo(vp8x), { width: 4096, height: 2872, format: "webp" });
+});
+
+Deno.test("sniffImageInfo - GIF and BMP", () => {
+  assertEquals(sniffImageInfo(bytes("GIF89a", [0x40, 0x01, 0xf0, 0x00])), { width: 320, height: 240, format: "gif" });
+
+  // BITMAPINFOHEADER with a negative (top-down) height
+  const bmp = bytes("BM", new Array(12).fill(0), [40, 0, 0, 0], [0x80, 0x02, 0, 0], [0x20, 0xfe, 0xff, 0xff]);
+  assertEquals(sniffImageInfo(bmp), { width: 640, height: 480, format: "bmp" });
+});
+
+Deno.test("sniffImageInfo - HEIC and AVIF take the largest ispe", () => {
+  const ipco = box("ipco", box("ispe", [0, 0, 0, 0], u32be(320), u32be(240)), box("ispe", [0, 0, 0, 0], u32be(4032), u32be(3024)));
+  const meta = box("meta", [0, 0, 0, 0], box("hdlr", new Array(12).fill(0)), box("iprp", ipco));
+
+  const heic = bytes(box("ftyp", "heic", [0, 0, 0, 0], "mif1", "heic"), meta);
+  assertEquals(sniffImageInfo(heic), { width: 4032, height: 3024, format: "heic" });
+
+  const avif = bytes(box("ftyp", "avif", [0, 0, 0, 0], "mif1", "miaf"), meta);
+  assertEquals(sniffImageInfo(avif), { width: 4032, height: 3024, format: "avif" });
+  assertEquals(imageMimeType("avif"), "image/avif");
+
+  // Generic HEIF major brand with AVIF listed among the compatible brands
+  const mif1Avif = bytes(box("ftyp", "mif1", [0, 0, 0, 0], "mif1", "avif", "miaf"), meta);
+  assertEquals(sniffImageInfo(mif1Avif), { width: 4032, height: 3024, format: "avif" });
+  const mif1Heic = bytes(box("ftyp", "mif1", [0, 0, 0, 0], "mif1", "heic"), meta);
+  assertEquals(sniffImageInfo(mif1Heic), { width: 4032, height: 3024, format: "heic" });
+});
+
+Deno.test("validateImageBytes - rejects oversized dimensions and unknown data", () => {
+  const result = validateImageBytes(bytes("GIF87a", [0x71, 0x17, 0x01, 0x00]));
+  assertEquals(result.ok ? null : result.error.code, "IMAGE_TOO_LARGE");
+
+  const unknown = validateImageBytes(bytes("not an image at all, just text"));
+  assertEquals(unknown.ok ? null : unknown.error.status, 400);
+});
@@ -1,15 +1,146 @@
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "bmp" | "heic" | "avif";
+
 export type ImageInfo = {
   width: number;
   height: number;
-  format: "jpeg" | "png";
+  format: ImageFormat;
+};
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // ZAI limit per image: < 5MB
+export const MAX_IMAGE_PX = 6000; // ZAI limit: 6000*6000
+
+/**
+ * Per-image limits of a provider.
+ */
+export type ImageLimits = {
+  maxBytes: number;
+  maxSide: number;
+};
+
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = { maxBytes: MAX_IMAGE_BYTES, maxSide: MAX_IMAGE_PX };
+
+export type ImageValidationError = {
+  code: string;
+  message: string;
+  status: number;
+};
+
+export type ImageValidationResult =
+  | { ok: true; info: ImageInfo; mime: string }
+  | { ok: false; error: ImageValidationError };
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  heic: "image/heic",
+  avif: "image/avif",
 };
 
+/** Human-readable list for error messages */
+export const SUPPORTED_IMAGE_FORMATS = "jpg, jpeg, png, webp, gif, bmp, heic, avif";
+
+/**
+ * Declared upload content types accepted by the upload endpoint.
+ */
+export const UPLOAD_MIME_TYPES = new Set([
+  ...Object.values(MIME_TYPES),
+  "image/heif",
+  "image/x-ms-bmp",
+]);
+
+export function imageMimeType(format: ImageFormat): string {
+  return MIME_TYPES[format];
+}
+
+/**
+ * Format for an upload content type (including aliases such as image/heif), or null.
+ */
+export function imageFormatFromMime(mime: string): ImageFormat | null {
+  const normalized = mime.trim().toLowerCase();
+  if (normalized === "image/heif") return "heic";
+  if (normalized === "image/x-ms-bmp") return "bmp";
+  const entry = Object.entries(MIME_TYPES).find(([, type]) => type === normalized);
+  return entry ? entry[0] as ImageFormat : null;
+}
+
+export function imageExtension(format: ImageFormat): string {
+  return format === "jpeg" ? "jpg" : format;
+}
+
+/**
+ * Check size, format and dimensions of image bytes.
+ * Errors match the ones returned by the upload endpoint.
+ */
+export function validateImageBytes(bytes: Uint8Array, limits: ImageLimits = DEFAULT_IMAGE_LIMITS): ImageValidationResult {
+  if (bytes.length <= 0 || bytes.length > limits.maxBytes) {
+    return {
+      ok: false,
+      error: { code: "FILE_TOO_LARGE", message: `Image size must be > 0 and <= ${limits.maxBytes} bytes`, status: 413 },
+    };
+  }
+  const info = sniffImageInfo(bytes);
+  if (!info) {
+    return {
+      ok: false,
+      error: { code: "INVALID_IMAGE", message: `Invalid or unsupported image data. Supported: ${SUPPORTED_IMAGE_FORMATS}`, status: 400 },
+    };
+  }
+  if (info.width > limits.maxSide || info.height > limits.maxSide) {
+    return {
+      ok: false,
+      error: { code: "IMAGE_TOO_LARGE", message: `Image dimensions must be <= ${limits.maxSide}x${limits.maxSide}`, status: 413 },
+    };
+  }
+  return { ok: true, info, mime: imageMimeType(info.format) };
+}
+
+/**
+ * Split a `data:` URL into MIME type and base64 payload.
+ * Returns null for non-data URLs or non-base64 data URLs.
+ */
+export function parseDataUrl(url: string): { mime: string; base64: string } | null {
+  const match = url.match(/^data:([^;,]*)(?:;[^;,]*)*;base64,(.*)$/s);
+  if (!match) return null;
+  return { mime: match[1], base64: match[2] };
+}
+
+export function decodeBase64(base64: string): Uint8Array | null {
+  try {
+    const binary = atob(base64.replace(/\s+/g, ""));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  // Chunked to stay below the argument limit of String.fromCharCode
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Documents accepted by the streamed upload route besides images */
+export const PDF_MIME_TYPE = "application/pdf";
+
+/**
+ * Whether the bytes start with a PDF header (`%PDF-`).
+ */
+export function isPdfData(bytes: Uint8Array): boolean {
+  const header = [0x25, 0x50, 0x44, 0x46, 0x2d];
+  return bytes.length >= header.length && header.every((byte, i) => bytes[i] === byte);
+}
+
 export function sniffImageInfo(bytes: Uint8Array): ImageInfo | null {
-  const png = sniffPng(bytes);
-  if (png) return png;
-  const jpeg = sniffJpeg(bytes);
-  if (jpeg) return jpeg;
-  return null;
+  return sniffPng(bytes) ?? sniffJpeg(bytes) ?? sniffWebp(bytes) ?? sniffGif(bytes) ?? sniffBmp(bytes) ??
+    sniffHeif(bytes);
 }
 
 function sniffPng(bytes: Uint8Array): ImageInfo | null {
@@ -73,6 +204,171 @@ function sniffJpeg(bytes: Uint8Array): ImageInfo | null {
   return null;
 }
 
+function sniffWebp(bytes: Uint8Array): ImageInfo | null {
+  if (bytes.length < 25) return null;
+  if (readAscii(bytes, 0, 4) !== "RIFF" || readAscii(bytes, 8, 4) !== "WEBP") return null;
+
+  const chunk = readAscii(bytes, 12, 4);
+  let width = 0;
+  let height = 0;
+  if (chunk === "VP8 ") {
+    // Lossy: frame tag(3) + start code 9d 01 2a + 14-bit width/height
+    if (bytes.length < 30 || bytes[23] !== 0x9d || bytes[24] !== 0x01 || bytes[25] !== 0x2a) return null;
+    width = readU16LE(bytes, 26) & 0x3fff;
+    height = readU16LE(bytes, 28) & 0x3fff;
+  } else if (chunk === "VP8L") {
+    // Lossless: signature 0x2f + 14-bit (width - 1) and (height - 1)
+    if (bytes[20] !== 0x2f) return null;
+    const bits = readU32LE(bytes, 21);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+  } else if (chunk === "VP8X") {
+    // Extended: flags(4) + 24-bit (canvas width - 1) and (canvas height - 1)
+    if (bytes.length < 30) return null;
+    width = readU24LE(bytes, 24) + 1;
+    height = readU24LE(bytes, 27) + 1;
+  } else {
+    return null;
+  }
+
+  if (width <= 0 || height <= 0) return null;
+  return { width, height, format: "webp" };
+}
+
+function sniffGif(bytes: Uint8Array): ImageInfo | null {
+  if (bytes.length < 10) return null;
+  const sig = readAscii(bytes, 0, 6);
+  if (sig !== "GIF87a" && sig !== "GIF89a") return null;
+  // Logical screen descriptor
+  const width = readU16LE(bytes, 6);
+  const height = readU16LE(bytes, 8);
+  if (width <= 0 || height <= 0) return null;
+  return { width, height, format: "gif" };
+}
+
+function sniffBmp(bytes: Uint8Array): ImageInfo | null {
+  if (bytes.length < 26) return null;
+  if (bytes[0] !== 0x42 || bytes[1] !== 0x4d) return null; // "BM"
+
+  const dibSize = readU32LE(bytes, 14);
+  let width: number;
+  let height: number;
+  if (dibSize === 12) {
+    // BITMAPCOREHEADER: 16-bit unsigned dimensions
+    width = readU16LE(bytes, 18);
+    height = readU16LE(bytes, 20);
+  } else if (dibSize >= 40) {
+    // BITMAPINFOHEADER and later: signed 32-bit, negative height means top-down rows
+    width = readI32LE(bytes, 18);
+    height = Math.abs(readI32LE(bytes, 22));
+  } else {
+    return null;
+  }
+
+  if (width <= 0 || height <= 0) return null;
+  return { width, height, format: "bmp" };
+}
+
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "hevm", "hevs"]);
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+/** Generic HEIF brands, also used as the major brand of AVIF files */
+const HEIF_BRANDS = new Set(["mif1", "msf1"]);
+
+/**
+ * HEIC/AVIF (ISO BMFF): brand from `ftyp`, dimensions from the largest `ispe`
+ * property in meta/iprp/ipco (smaller ones belong to thumbnails or tiles).
+ */
+function sniffHeif(bytes: Uint8Array): ImageInfo | null {
+  if (bytes.length < 16 || readAscii(bytes, 4, 4) !== "ftyp") return null;
+
+  const ftypSize = readU32BE(bytes, 0);
+  const ftypEnd = Math.min(bytes.length, ftypSize);
+  const brands = [readAscii(bytes, 8, 4)];
+  for (let offset = 16; offset + 4 <= ftypEnd; offset += 4) {
+    brands.push(readAscii(bytes, offset, 4));
+  }
+
+  // A specific major brand wins, then AVIF compatible brands before the generic HEIF ones
+  let format: ImageFormat;
+  if (AVIF_BRANDS.has(brands[0]) || (!HEIC_BRANDS.has(brands[0]) && brands.some((b) => AVIF_BRANDS.has(b)))) {
+    format = "avif";
+  } else if (brands.some((b) => HEIC_BRANDS.has(b) || HEIF_BRANDS.has(b))) {
+    format = "heic";
+  } else {
+    return null;
+  }
+
+  const meta = findBox(bytes, 0, bytes.length, "meta");
+  if (!meta) return null;
+  // meta is a FullBox: skip version(1) + flags(3)
+  const iprp = findBox(bytes, meta.start + 4, meta.end, "iprp");
+  const ipco = iprp ? findBox(bytes, iprp.start, iprp.end, "ipco") : null;
+  if (!ipco) return null;
+
+  let width = 0;
+  let height = 0;
+  for (const box of iterateBoxes(bytes, ipco.start, ipco.end)) {
+    if (box.type !== "ispe" || box.end - box.start < 12) continue;
+    const w = readU32BE(bytes, box.start + 4);
+    const h = readU32BE(bytes, box.start + 8);
+    if (w * h > width * height) {
+      width = w;
+      height = h;
+    }
+  }
+
+  if (width <= 0 || height <= 0) return null;
+  return { width, height, format };
+}
+
+type Box = { type: string; start: number; end: number };
+
+function* iterateBoxes(bytes: Uint8Array, start: number, end: number): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readU32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return;
+      size = readU32BE(bytes, offset + 8) * 2 ** 32 + readU32BE(bytes, offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) return;
+    yield { type, start: offset + header, end: offset + size };
+    offset += size;
+  }
+}
+
+function findBox(bytes: Uint8Array, start: number, end: number, type: string): Box | null {
+  for (const box of iterateBoxes(bytes, start, end)) {
+    if (box.type === type) return box;
+  }
+  return null;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function readU16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readU24LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function readU32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset + 3] * 2 ** 24) + (bytes[offset + 2] << 16) + (bytes[offset + 1] << 8) + bytes[offset];
+}
+
+function readI32LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24);
+}
+
 function readU16BE(bytes: Uint8Array, offset: number): number {
   return (bytes[offset] << 8) | bytes[offset + 1];
 }
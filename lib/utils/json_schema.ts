@@ -0,0 +1,187 @@
+/**
+ * Minimal JSON Schema validator for structured model output.
+ * Supports the subset used by response_format schemas: type, enum, const, properties,
+ * required, additionalProperties, items, min/max constraints, pattern, anyOf/oneOf/allOf.
+ */
+
+export type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [key: string]: unknown;
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return typeOf(value) === "object";
+}
+
+/**
+ * Find the first keyword with the wrong shape or a `pattern` that is not a valid regular
+ * expression, so a bad client schema is rejected up front instead of failing (or crashing)
+ * validation after the provider call.
+ * @returns Error message, or null when the schema can be validated against.
+ */
+export function findSchemaError(schema: unknown, path = "$"): string | null {
+  if (!isSchemaObject(schema)) return `${path}: schema must be an object`;
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.every((t) => typeof t === "string")) return `${path}.type: must be a string or an array of strings`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) return `${path}.enum: must be an array`;
+  if (schema.required !== undefined) {
+    const required: unknown = schema.required;
+    if (!Array.isArray(required) || !required.every((k) => typeof k === "string")) {
+      return `${path}.required: must be an array of strings`;
+    }
+  }
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== "string") return `${path}.pattern: must be a string`;
+    try {
+      new RegExp(schema.pattern, "u");
+    } catch {
+      return `${path}: invalid pattern ${JSON.stringify(schema.pattern)}`;
+    }
+  }
+
+  const children: Array<[string, unknown]> = [];
+  if (schema.properties !== undefined) {
+    if (!isSchemaObject(schema.properties)) return `${path}.properties: must be an object`;
+    for (const [key, sub] of Object.entries(schema.properties)) children.push([`${path}.${key}`, sub]);
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== "boolean") {
+    children.push([`${path}.*`, schema.additionalProperties]);
+  }
+  if (schema.items !== undefined) children.push([`${path}[]`, schema.items]);
+  for (const keyword of ["anyOf", "oneOf", "allOf"] as const) {
+    const subs: unknown = schema[keyword];
+    if (subs === undefined) continue;
+    if (!Array.isArray(subs)) return `${path}.${keyword}: must be an array of schemas`;
+    subs.forEach((sub, idx) => children.push([`${path}.${keyword}[${idx}]`, sub]));
+  }
+  for (const [childPath, sub] of children) {
+    const error = findSchemaError(sub, childPath);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Validate a value against a schema.
+ * @returns List of human-readable errors (empty when valid).
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((item) => isEqual(item, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, idx) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${idx}]`)));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(obj, key)) errors.push(`${path}: missing required property '${key}'`);
+    }
+    const properties = schema.properties ?? {};
+    for (const [key, item] of Object.entries(obj)) {
+      if (Object.hasOwn(properties, key)) {
+        errors.push(...validateJsonSchema(item, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${key}'`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    for (const sub of schema.allOf) errors.push(...validateJsonSchema(value, sub, path));
+  }
+  if (schema.anyOf && !schema.anyOf.some((sub) => validateJsonSchema(value, sub, path).length === 0)) {
+    errors.push(`${path}: must match at least one schema in anyOf`);
+  }
+  if (schema.oneOf) {
+    const matched = schema.oneOf.filter((sub) => validateJsonSchema(value, sub, path).length === 0).length;
+    if (matched !== 1) errors.push(`${path}: must match exactly one schema in oneOf (matched ${matched})`);
+  }
+
+  return errors;
+}
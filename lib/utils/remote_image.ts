@@ -0,0 +1,261 @@
+/**
+ * Server-side fetching of remote image URLs with size/time limits and SSRF protections:
+ * only http(s), no credentials in the URL, and every address the host resolves to
+ * (including redirect targets) must be public.
+ *
+ * Config (env):
+ * - IMAGE_FETCH: default mode for `image_url`/`images` URLs: off | inline | rehost (default off)
+ * - IMAGE_FETCH_TIMEOUT_MS: total time for DNS, redirects and the download (default 10000)
+ * - IMAGE_FETCH_MAX_BYTES: maximum download size (default 20MB)
+ * - IMAGE_FETCH_ALLOWED_HOSTS: comma-separated hosts exempt from the private address check
+ *   (e.g. an internal CDN)
+ */
+
+import { sniffImageInfo, SUPPORTED_IMAGE_FORMATS } from "./image.ts";
+import type { ImageInfo, ImageValidationError } from "./image.ts";
+
+export type ImageFetchMode = "off" | "inline" | "rehost";
+
+export type RemoteImageResult =
+  | { ok: true; bytes: Uint8Array; info: ImageInfo; url: string }
+  | { ok: false; error: ImageValidationError };
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+// Non-public IPv4 ranges: [network, prefix length]
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+];
+
+/**
+ * Parse the fetch mode option (request field or env value).
+ */
+export function parseImageFetchMode(value: unknown): ImageFetchMode | undefined {
+  if (typeof value !== "string") return undefined;
+  const mode = value.trim().toLowerCase();
+  return mode === "off" || mode === "inline" || mode === "rehost" ? mode : undefined;
+}
+
+export function getDefaultImageFetchMode(): ImageFetchMode {
+  return parseImageFetchMode(Deno.env.get("IMAGE_FETCH")) ?? "off";
+}
+
+function getPositiveEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+function getAllowedHosts(): Set<string> {
+  const raw = Deno.env.get("IMAGE_FETCH_ALLOWED_HOSTS") ?? "";
+  return new Set(raw.split(",").map((host) => host.trim().toLowerCase()).filter(Boolean));
+}
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+  // Trailing dotted IPv4 (::ffff:1.2.3.4) becomes two hex groups
+  const v4Match = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Match) {
+    const v4 = parseIpv4(v4Match[2]);
+    if (v4 === null) return null;
+    text = `${v4Match[1]}${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isBlockedIpv4(value: number): boolean {
+  return BLOCKED_IPV4.some(([network, bits]) => {
+    const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+    return ((value & mask) >>> 0) === ((parseIpv4(network)! & mask) >>> 0);
+  });
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, multicast or otherwise not public.
+ * Unparseable input counts as blocked.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const v4 = parseIpv4(address);
+  if (v4 !== null) return isBlockedIpv4(v4);
+
+  const groups = parseIpv6(address.replace(/^\[|\]$/g, ""));
+  if (!groups) return true;
+  const embeddedV4 = groups[6] * 65536 + groups[7];
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses carry an IPv4 target
+  if (groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff) return isBlockedIpv4(embeddedV4);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    return isBlockedIpv4(embeddedV4);
+  }
+  if (groups.slice(0, 7).every((g) => g === 0)) return true; // :: and ::1
+  return (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00 || // multicast
+    (groups[0] === 0x2001 && groups[1] === 0x0db8); // documentation
+}
+
+function forbidden(message: string): { ok: false; error: ImageValidationError } {
+  return { ok: false, error: { code: "IMAGE_URL_FORBIDDEN", message, status: 400 } };
+}
+
+function fetchFailed(message: string): { ok: false; error: ImageValidationError } {
+  return { ok: false, error: { code: "IMAGE_FETCH_FAILED", message, status: 502 } };
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) => lookup.status === "fulfilled" ? lookup.value : []);
+}
+
+/**
+ * Check scheme, credentials and resolved addresses of a URL (also used for webhook targets).
+ * Note: the address is resolved again by fetch, so a short-TTL DNS record could still
+ * rebind between the check and the request; run behind an egress firewall for full protection.
+ */
+export async function checkRemoteUrl(url: URL): Promise<{ ok: true } | { ok: false; error: ImageValidationError }> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return forbidden(`Unsupported URL scheme '${url.protocol.replace(/:$/, "")}'; only http and https are allowed`);
+  }
+  if (url.username || url.password) {
+    return forbidden("URLs must not contain credentials");
+  }
+  const hostname = url.hostname.toLowerCase();
+  if (getAllowedHosts().has(hostname)) return { ok: true };
+
+  const literal = hostname.startsWith("[") || parseIpv4(hostname) !== null;
+  const addresses = literal ? [hostname] : await resolveHost(hostname);
+  if (addresses.length === 0) {
+    return fetchFailed(`Could not resolve host '${hostname}'`);
+  }
+  if (addresses.some(isBlockedAddress)) {
+    return forbidden(`Host '${hostname}' resolves to a private or reserved address`);
+  }
+  return { ok: true };
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) return new Uint8Array();
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Download an image URL, following up to 3 redirects (each target is re-checked),
+ * and sniff the result. The declared Content-Type is ignored.
+ */
+export async function fetchRemoteImage(rawUrl: string): Promise<RemoteImageResult> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { ok: false, error: { code: "INVALID_IMAGE_URL", message: "image_url must be an absolute URL", status: 400 } };
+  }
+
+  const timeoutMs = getPositiveEnv("IMAGE_FETCH_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const maxBytes = getPositiveEnv("IMAGE_FETCH_MAX_BYTES", DEFAULT_MAX_BYTES);
+  const signal = AbortSignal.timeout(timeoutMs);
+  const tooLarge = {
+    ok: false as const,
+    error: { code: "FILE_TOO_LARGE", message: `Remote image must be <= ${maxBytes} bytes`, status: 413 },
+  };
+
+  try {
+    for (let redirects = 0;; redirects++) {
+      const checked = await checkRemoteUrl(url);
+      if (!checked.ok) return checked;
+
+      const response = await fetch(url, { redirect: "manual", signal, headers: { Accept: "image/*" } });
+      if (response.status >= 300 && response.status < 400) {
+        await response.body?.cancel();
+        const location = response.headers.get("Location");
+        if (!location) return fetchFailed(`Image URL redirected (${response.status}) without a Location`);
+        if (redirects >= MAX_REDIRECTS) return fetchFailed(`Image URL redirected more than ${MAX_REDIRECTS} times`);
+        url = new URL(location, url);
+        continue;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        return fetchFailed(`Image URL returned HTTP ${response.status}`);
+      }
+
+      const declared = Number(response.headers.get("Content-Length"));
+      if (Number.isFinite(declared) && declared > maxBytes) {
+        await response.body?.cancel();
+        return tooLarge;
+      }
+      const bytes = await readLimited(response, maxBytes);
+      if (!bytes) return tooLarge;
+
+      const info = sniffImageInfo(bytes);
+      if (!info) {
+        return {
+          ok: false,
+          error: {
+            code: "INVALID_IMAGE",
+            message: `Image URL did not return a supported image. Supported: ${SUPPORTED_IMAGE_FORMATS}`,
+            status: 400,
+          },
+        };
+      }
+      return { ok: true, bytes, info, url: url.href };
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      return { ok: false, error: { code: "IMAGE_FETCH_TIMEOUT", message: `Image URL did not respond within ${timeoutMs}ms`, status: 504 } };
+    }
+    return fetchFailed(`Failed to fetch image URL: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
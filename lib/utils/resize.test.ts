@@ -0,0 +1,46 @@
+/**
+ * Tests for the image resize pipeline.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import jpeg from "jpeg-js";
+import { encode as encodePng } from "fast-png";
+import { prepareImage } from "./resize.ts";
+import { readJpegExif, setJpegOrientation } from "./exif.ts";
+import { sniffImageInfo } from "./image.ts";
+
+function solidJpeg(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 4).fill(180);
+  return new Uint8Array(jpeg.encode({ width, height, data }, 90).data);
+}
+
+Deno.test("prepareImage - leaves images alone without resize", async () => {
+  const bytes = solidJpeg(64, 48);
+  const result = await prepareImage(bytes, { resize: false });
+  assertEquals(result.ok && result.resized, false);
+
+  const tooBig = await prepareImage(bytes, { resize: false, limits: { maxBytes: 10_000_000, maxSide: 32 } });
+  assertEquals(tooBig.ok ? null : tooBig.error.code, "IMAGE_TOO_LARGE");
+});
+
+Deno.test("prepareImage - downscales JPEG to max side and keeps orientation", async () => {
+  const bytes = setJpegOrientation(solidJpeg(800, 600), 6);
+  const result = await prepareImage(bytes, { resize: true, maxSide: 200 });
+  if (!result.ok) throw new Error(result.error.message);
+
+  assertEquals(result.resized, true);
+  assertEquals(result.original, { width: 800, height: 600, size: bytes.length });
+  assertEquals(sniffImageInfo(result.bytes), { width: 200, height: 150, format: "jpeg" });
+  assertEquals(readJpegExif(result.bytes)?.orientation, 6);
+});
+
+Deno.test("prepareImage - PNG with alpha stays PNG", async () => {
+  const data = new Uint8Array(100 * 50 * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([255, 0, 0, i % 8 === 0 ? 0 : 255], i);
+  const bytes = encodePng({ width: 100, height: 50, data, channels: 4, depth: 8 });
+
+  const result = await prepareImage(bytes, { resize: true, limits: { maxBytes: 1_000_000, maxSide: 40 } });
+  if (!result.ok) throw new Error(result.error.message);
+  assertEquals(result.mime, "image/png");
+  assertEquals([result.info.width, result.info.height], [40, 20]);
+});
@@ -0,0 +1,276 @@
+/**
+ * Opt-in downscaling of images that exceed provider limits or a requested `max_side`.
+ * Pure TS: jpeg-js and fast-png for codecs, area-averaging resampling here.
+ * JPEG and PNG are re-encoded; other formats are only validated.
+ *
+ * Config (env):
+ * - IMAGE_RESIZE: set to 1 to resize by default (uploads and inline vision images)
+ * - IMAGE_RESIZE_QUALITY: JPEG quality for re-encoding (default 85)
+ */
+
+import jpeg from "jpeg-js";
+import { convertIndexedToRgb, decode as decodePng, encode as encodePng } from "fast-png";
+import { readJpegExif, setJpegOrientation } from "./exif.ts";
+import { DEFAULT_IMAGE_LIMITS, sniffImageInfo, validateImageBytes } from "./image.ts";
+import type { ImageInfo, ImageLimits, ImageValidationError } from "./image.ts";
+
+// Inputs above these are rejected before decoding to bound memory use
+export const MAX_RESIZE_INPUT_BYTES = 25 * 1024 * 1024;
+const MAX_INPUT_PIXELS = 40_000_000;
+const MIN_QUALITY = 40;
+const MAX_ATTEMPTS = 8;
+
+const RESIZABLE_FORMATS = new Set<ImageInfo["format"]>(["jpeg", "png"]);
+
+export type ResizeOptions = {
+  /** Downscale and re-encode when needed (otherwise only validate) */
+  resize: boolean;
+  /** Requested maximum width/height, applied on top of the limits */
+  maxSide?: number;
+  limits?: ImageLimits;
+};
+
+export type ImageDimensions = { width: number; height: number; size: number };
+
+export type PreparedImage = {
+  bytes: Uint8Array;
+  info: ImageInfo;
+  mime: string;
+  original: ImageDimensions;
+  resized: boolean;
+};
+
+export type PrepareImageResult =
+  | ({ ok: true } & PreparedImage)
+  | { ok: false; error: ImageValidationError };
+
+export function isResizeEnabledByDefault(): boolean {
+  return Deno.env.get("IMAGE_RESIZE") === "1";
+}
+
+function getJpegQuality(): number {
+  const value = Number(Deno.env.get("IMAGE_RESIZE_QUALITY"));
+  return Number.isFinite(value) && value >= 1 && value <= 100 ? Math.floor(value) : 85;
+}
+
+/**
+ * Validate an image and, when resizing is enabled, downscale it to fit the limits and `maxSide`.
+ * Formats that cannot be re-encoded are returned unchanged if they already fit.
+ */
+export async function prepareImage(bytes: Uint8Array, opts: ResizeOptions): Promise<PrepareImageResult> {
+  const limits = opts.limits ?? DEFAULT_IMAGE_LIMITS;
+  if (!opts.resize) return withOriginal(bytes, validateImageBytes(bytes, limits));
+
+  if (bytes.length > MAX_RESIZE_INPUT_BYTES) {
+    return {
+      ok: false,
+      error: { code: "FILE_TOO_LARGE", message: `Image size must be <= ${MAX_RESIZE_INPUT_BYTES} bytes for resizing`, status: 413 },
+    };
+  }
+  const info = sniffImageInfo(bytes);
+  const maxSide = Math.min(limits.maxSide, opts.maxSide ?? Infinity);
+  const fits = info && Math.max(info.width, info.height) <= maxSide && bytes.length <= limits.maxBytes;
+  if (!info || fits || !RESIZABLE_FORMATS.has(info.format)) {
+    return withOriginal(bytes, validateImageBytes(bytes, limits));
+  }
+  if (info.width * info.height > MAX_INPUT_PIXELS) {
+    return {
+      ok: false,
+      error: { code: "IMAGE_TOO_LARGE", message: `Image must have <= ${MAX_INPUT_PIXELS} pixels for resizing`, status: 413 },
+    };
+  }
+
+  const output = await downscale(bytes, info, maxSide, limits.maxBytes);
+  const result = validateImageBytes(output, limits);
+  if (!result.ok) return result;
+  return {
+    ok: true,
+    bytes: output,
+    info: result.info,
+    mime: result.mime,
+    original: { width: info.width, height: info.height, size: bytes.length },
+    resized: true,
+  };
+}
+
+function withOriginal(bytes: Uint8Array, result: ReturnType<typeof validateImageBytes>): PrepareImageResult {
+  if (!result.ok) return result;
+  const original = { width: result.info.width, height: result.info.height, size: bytes.length };
+  return { ok: true, bytes, info: result.info, mime: result.mime, original, resized: false };
+}
+
+type Raster = { width: number; height: number; data: Uint8Array; hasAlpha: boolean };
+
+/**
+ * Resize to `maxSide`, then lower JPEG quality and scale further until the output fits `maxBytes`.
+ * PNG stays PNG unless it cannot fit, in which case it is re-encoded as JPEG.
+ */
+async function downscale(bytes: Uint8Array, info: ImageInfo, maxSide: number, maxBytes: number): Promise<Uint8Array> {
+  const source = decodeRaster(bytes, info.format);
+  // Re-encoding drops EXIF, so the orientation is written back for JPEG output
+  const orientation = info.format === "jpeg" ? readJpegExif(bytes)?.orientation : undefined;
+
+  let scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  let quality = getJpegQuality();
+  let output = bytes;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const raster = scale < 1
+      ? resample(source, Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)))
+      : source;
+
+    if (info.format === "png" && attempt === 0) {
+      output = encodeRasterPng(raster);
+    } else {
+      output = encodeRasterJpeg(raster, quality);
+      if (orientation && orientation !== 1) output = setJpegOrientation(output, orientation);
+    }
+    if (output.length <= maxBytes) return output;
+
+    if (info.format === "png" && attempt === 0) continue;
+    if (quality > MIN_QUALITY) quality = Math.max(MIN_QUALITY, quality - 15);
+    else scale *= 0.75;
+    // Yield between attempts so a long re-encode loop does not starve other requests
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  return output;
+}
+
+function decodeRaster(bytes: Uint8Array, format: ImageInfo["format"]): Raster {
+  if (format === "jpeg") {
+    const decoded = jpeg.decode(bytes, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_INPUT_PIXELS / 1_000_000,
+    });
+    return { width: decoded.width, height: decoded.height, data: decoded.data, hasAlpha: false };
+  }
+
+  const png = decodePng(bytes);
+  const pixels = png.width * png.height;
+  let channels = png.channels;
+  let data: ArrayLike<number> = png.data;
+  if (png.palette) {
+    data = convertIndexedToRgb(png);
+    channels = data.length / pixels;
+  }
+  // 16-bit samples are reduced to 8 bits
+  const shift = png.depth === 16 ? 8 : 0;
+
+  const rgba = new Uint8Array(pixels * 4);
+  let hasAlpha = false;
+  for (let i = 0; i < pixels; i++) {
+    const src = i * channels;
+    const dst = i * 4;
+    if (channels <= 2) {
+      rgba[dst] = rgba[dst + 1] = rgba[dst + 2] = data[src] >> shift;
+    } else {
+      rgba[dst] = data[src] >> shift;
+      rgba[dst + 1] = data[src + 1] >> shift;
+      rgba[dst + 2] = data[src + 2] >> shift;
+    }
+    const alpha = channels === 2 || channels === 4 ? data[src + channels - 1] >> shift : 255;
+    rgba[dst + 3] = alpha;
+    if (alpha !== 255) hasAlpha = true;
+  }
+  return { width: png.width, height: png.height, data: rgba, hasAlpha };
+}
+
+function encodeRasterPng(raster: Raster): Uint8Array {
+  if (raster.hasAlpha) {
+    return encodePng({ width: raster.width, height: raster.height, data: raster.data, channels: 4, depth: 8 });
+  }
+  const rgb = new Uint8Array(raster.width * raster.height * 3);
+  for (let i = 0, j = 0; i < raster.data.length; i += 4, j += 3) {
+    rgb[j] = raster.data[i];
+    rgb[j + 1] = raster.data[i + 1];
+    rgb[j + 2] = raster.data[i + 2];
+  }
+  return encodePng({ width: raster.width, height: raster.height, data: rgb, channels: 3, depth: 8 });
+}
+
+function encodeRasterJpeg(raster: Raster, quality: number): Uint8Array {
+  let data = raster.data;
+  if (raster.hasAlpha) {
+    // JPEG has no alpha channel: composite onto white
+    data = new Uint8Array(raster.data.length);
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = raster.data[i + 3] / 255;
+      data[i] = Math.round(raster.data[i] * alpha + 255 * (1 - alpha));
+      data[i + 1] = Math.round(raster.data[i + 1] * alpha + 255 * (1 - alpha));
+      data[i + 2] = Math.round(raster.data[i + 2] * alpha + 255 * (1 - alpha));
+      data[i + 3] = 255;
+    }
+  }
+  const encoded = jpeg.encode({ width: raster.width, height: raster.height, data }, quality);
+  return new Uint8Array(encoded.data);
+}
+
+/**
+ * Source indices and weights contributing to each destination pixel along one axis
+ * (area averaging, suited for downscaling).
+ */
+function axisWeights(srcSize: number, dstSize: number): Array<Array<[number, number]>> {
+  const ratio = srcSize / dstSize;
+  const result: Array<Array<[number, number]>> = [];
+  for (let d = 0; d < dstSize; d++) {
+    const start = d * ratio;
+    const end = Math.min(srcSize, (d + 1) * ratio);
+    const taps: Array<[number, number]> = [];
+    for (let s = Math.floor(start); s < end; s++) {
+      const weight = Math.min(end, s + 1) - Math.max(start, s);
+      if (weight > 0) taps.push([s, weight / (end - start)]);
+    }
+    result.push(taps);
+  }
+  return result;
+}
+
+/**
+ * Separable area-averaging resize of an RGBA raster.
+ */
+function resample(src: Raster, width: number, height: number): Raster {
+  const xTaps = axisWeights(src.width, width);
+  const yTaps = axisWeights(src.height, height);
+
+  // Horizontal pass: src.height rows of `width` pixels
+  const tmp = new Float32Array(width * src.height * 4);
+  for (let y = 0; y < src.height; y++) {
+    const row = y * src.width * 4;
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (const [sx, w] of xTaps[x]) {
+        const i = row + sx * 4;
+        r += src.data[i] * w;
+        g += src.data[i + 1] * w;
+        b += src.data[i + 2] * w;
+        a += src.data[i + 3] * w;
+      }
+      const o = (y * width + x) * 4;
+      tmp[o] = r;
+      tmp[o + 1] = g;
+      tmp[o + 2] = b;
+      tmp[o + 3] = a;
+    }
+  }
+
+  // Vertical pass
+  const out = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (const [sy, w] of yTaps[y]) {
+        const i = (sy * width + x) * 4;
+        r += tmp[i] * w;
+        g += tmp[i + 1] * w;
+        b += tmp[i + 2] * w;
+        a += tmp[i + 3] * w;
+      }
+      const o = (y * width + x) * 4;
+      out[o] = Math.round(r);
+      out[o + 1] = Math.round(g);
+      out[o + 2] = Math.round(b);
+      out[o + 3] = Math.round(a);
+    }
+  }
+  return { width, height, data: out, hasAlpha: src.hasAlpha };
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for usage report helpers.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { nextMonthStart, parseUsageRange, sumUsage, usageDays, usageToCsv } from "./usage_report.ts";
+import type { UsageEntry } from "../storage/types.ts";
+
+const entry = (overrides: Partial<UsageEntry>): UsageEntry => ({
+  date: "2026-03-01",
+  userId: "auth0|1",
+  provider: "zai",
+  model: "glm-4.6v-flash",
+  requests: 2,
+  promptTokens: 100,
+  completionTokens: 20,
+  totalTokens: 120,
+  images: 3,
+  updatedAt: "2026-03-01T10:00:00.000Z",
+  ...overrides,
+});
+
+Deno.test("parseUsageRange - defaults to the current month and validates dates", () => {
+  const now = new Date("2026-03-15T12:00:00Z");
+  assertEquals(parseUsageRange(null, null, now), { ok: true, from: "2026-03-01", to: "2026-03-15" });
+  assertEquals(parseUsageRange("2026-02-27", "2026-03-02", now), { ok: true, from: "2026-02-27", to: "2026-03-02" });
+
+  const messages = [
+    parseUsageRange("2026-02-30", null, now),
+    parseUsageRange("03/01/2026", null, now),
+    parseUsageRange("2026-03-10", "2026-03-01", now),
+    parseUsageRange("2024-01-01", "2026-01-01", now),
+  ].map((result) => result.ok ? null : result.message);
+  assertEquals(messages, [
+    "from and to must be dates in YYYY-MM-DD format",
+    "from and to must be dates in YYYY-MM-DD format",
+    "from must not be after to",
+    "Date range must not exceed 366 days",
+  ]);
+});
+
+Deno.test("usageDays and nextMonthStart - UTC calendar math", () => {
+  assertEquals(usageDays("2026-02-27", "2026-03-01"), ["2026-02-27", "2026-02-28", "2026-03-01"]);
+  assertEquals(nextMonthStart(new Date("2026-12-31T23:59:59Z")).toISOString(), "2027-01-01T00:00:00.000Z");
+});
+
+Deno.test("sumUsage and usageToCsv - totals and escaped rows", () => {
+  const entries = [entry({}), entry({ userId: 'team "a", b', requests: 1, totalTokens: 5, promptTokens: 5, completionTokens: 0 })];
+  assertEquals(sumUsage(entries), { requests: 3, promptTokens: 105, completionTokens: 20, totalTokens: 125, images: 6 });
+  assertEquals(
+    usageToCsv(entries),
+    "date,user_id,provider,model,requests,prompt_tokens,completion_tokens,total_tokens,images\r\n" +
+      "2026-03-01,auth0|1,zai,glm-4.6v-flash,2,100,20,120,3\r\n" +
+      '2026-03-01,"team ""a"", b",zai,glm-4.6v-flash,1,5,0,5,3\r\n',
+  );
+});
@@ -0,0 +1,108 @@
+/**
+ * Usage report helpers: UTC day/month math, date range parsing, totals and CSV export.
+ */
+
+import type { UsageEntry, UsageTotals } from "../storage/types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const MAX_USAGE_RANGE_DAYS = 366;
+
+export type UsageRangeResult =
+  | { ok: true; from: string; to: string }
+  | { ok: false; message: string };
+
+export function usageDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function usageMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Start of the next UTC month, when monthly quotas reset.
+ */
+export function nextMonthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * UTC days from `from` to `to` (inclusive).
+ */
+export function usageDays(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); usageDay(day) <= to; day = new Date(day.getTime() + DAY_MS)) {
+    days.push(usageDay(day));
+  }
+  return days;
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+    usageDay(new Date(`${value}T00:00:00Z`)) === value;
+}
+
+/**
+ * Parse `from`/`to` query values (YYYY-MM-DD, inclusive). Defaults to the current UTC month
+ * up to today; ranges are limited to MAX_USAGE_RANGE_DAYS.
+ */
+export function parseUsageRange(from: string | null, to: string | null, now = new Date()): UsageRangeResult {
+  const start = from ?? `${usageMonth(now)}-01`;
+  const end = to ?? usageDay(now);
+  if (!isValidDate(start) || !isValidDate(end)) {
+    return { ok: false, message: "from and to must be dates in YYYY-MM-DD format" };
+  }
+  if (start > end) {
+    return { ok: false, message: "from must not be after to" };
+  }
+  const days = (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS + 1;
+  if (days > MAX_USAGE_RANGE_DAYS) {
+    return { ok: false, message: `Date range must not exceed ${MAX_USAGE_RANGE_DAYS} days` };
+  }
+  return { ok: true, from: start, to: end };
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, images: 0 };
+}
+
+export function addUsageTotals(target: UsageTotals, add: UsageTotals): UsageTotals {
+  target.requests += add.requests;
+  target.promptTokens += add.promptTokens;
+  target.completionTokens += add.completionTokens;
+  target.totalTokens += add.totalTokens;
+  target.images += add.images;
+  return target;
+}
+
+export function sumUsage(entries: UsageEntry[]): UsageTotals {
+  return entries.reduce((totals, entry) => addUsageTotals(totals, entry), emptyUsageTotals());
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV export with one row per day, user, provider and model.
+ */
+export function usageToCsv(entries: UsageEntry[]): string {
+  const header = ["date", "user_id", "provider", "model", "requests", "prompt_tokens", "completion_tokens", "total_tokens", "images"];
+  const rows = entries.map((entry) =>
+    [
+      entry.date,
+      entry.userId,
+      entry.provider,
+      entry.model,
+      entry.requests,
+      entry.promptTokens,
+      entry.completionTokens,
+      entry.totalTokens,
+      entry.images,
+    ].map(csvField).join(",")
+  );
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,74 @@
+/**
+ * Tests for webhook signing and delivery.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { deliverWebhook, signWebhookPayload, verifyWebhookSignature, webhookRetryDelayMs } from "./webhook.ts";
+
+const SECRET = "test-webhook-secret";
+
+async function withWebhookEnv(fn: () => Promise<void>) {
+  const prev = {
+    secret: Deno.env.get("WEBHOOK_SECRET"),
+    hosts: Deno.env.get("IMAGE_FETCH_ALLOWED_HOSTS"),
+  };
+  Deno.env.set("WEBHOOK_SECRET", SECRET);
+  Deno.env.set("IMAGE_FETCH_ALLOWED_HOSTS", "127.0.0.1");
+  try {
+    await fn();
+  } finally {
+    if (prev.secret === undefined) Deno.env.delete("WEBHOOK_SECRET");
+    else Deno.env.set("WEBHOOK_SECRET", prev.secret);
+    if (prev.hosts === undefined) Deno.env.delete("IMAGE_FETCH_ALLOWED_HOSTS");
+    else Deno.env.set("IMAGE_FETCH_ALLOWED_HOSTS", prev.hosts);
+  }
+}
+
+Deno.test("signWebhookPayload - verifies within the tolerance window only", async () => {
+  const body = JSON.stringify({ event: "vision_job.succeeded" });
+  const now = new Date("2026-01-01T00:00:00Z");
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const header = await signWebhookPayload(SECRET, timestamp, body);
+
+  assertEquals(header.startsWith(`t=${timestamp},v1=`), true);
+  assertEquals(await verifyWebhookSignature(SECRET, header, body, 300, now), true);
+  assertEquals(await verifyWebhookSignature(SECRET, header, body + " ", 300, now), false);
+  assertEquals(await verifyWebhookSignature("other-secret", header, body, 300, now), false);
+  assertEquals(await verifyWebhookSignature(SECRET, header, body, 300, new Date(now.getTime() + 301_000)), false);
+  assertEquals(await verifyWebhookSignature(SECRET, "garbage", body, 300, now), false);
+});
+
+Deno.test("webhookRetryDelayMs - doubles from 30s and caps at an hour", () => {
+  assertEquals([1, 2, 3, 4].map(webhookRetryDelayMs), [30_000, 60_000, 120_000, 240_000]);
+  assertEquals(webhookRetryDelayMs(20), 60 * 60 * 1000);
+});
+
+Deno.test("deliverWebhook - signs requests and reports non-2xx responses", async () => {
+  const received: Array<{ signature: string | null; body: string }> = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, async (req) => {
+    received.push({ signature: req.headers.get("X-Webhook-Signature"), body: await req.text() });
+    const path = new URL(req.url).pathname;
+    if (path === "/redirect") return new Response(null, { status: 302, headers: { Location: "/ok" } });
+    return new Response(null, { status: path === "/ok" ? 204 : 500 });
+  });
+  const base = `http://127.0.0.1:${server.addr.port}`;
+  try {
+    await withWebhookEnv(async () => {
+      const ok = await deliverWebhook(`${base}/ok`, '{"a":1}');
+      assertEquals(ok, { ok: true, status: 204 });
+      assertEquals(await verifyWebhookSignature(SECRET, received[0].signature!, received[0].body), true);
+
+      const failed = await deliverWebhook(`${base}/fail`, "{}");
+      assertEquals(failed.ok ? null : failed.status, 500);
+      const redirected = await deliverWebhook(`${base}/redirect`, "{}");
+      assertEquals(redirected.ok ? null : redirected.status, 302);
+      assertEquals(received.length, 3);
+
+      const forbidden = await deliverWebhook("http://10.0.0.1/hook", "{}");
+      assertEquals(forbidden.ok, false);
+      assertEquals(received.length, 3);
+    });
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,101 @@
+/**
+ * Signed webhook delivery. The body is signed with HMAC-SHA256 over `<timestamp>.<body>` and sent as
+ * `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`. Targets get the same public-address checks as
+ * remote image URLs (IMAGE_FETCH_ALLOWED_HOSTS applies) and redirects are not followed.
+ *
+ * Config (env):
+ * - WEBHOOK_SECRET: signing key; webhooks are refused without it
+ * - WEBHOOK_TIMEOUT_MS: per-attempt timeout (default 10000)
+ */
+
+import { hmacSha256, sha256Hex, toHex } from "./hash.ts";
+import { checkRemoteUrl } from "./remote_image.ts";
+
+export type WebhookDelivery = { ok: boolean; status?: number; error?: string };
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+export function getWebhookSecret(): string | undefined {
+  return Deno.env.get("WEBHOOK_SECRET")?.trim() || undefined;
+}
+
+function getTimeoutMs(): number {
+  const value = Number(Deno.env.get("WEBHOOK_TIMEOUT_MS"));
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Signature header value for a body sent at `timestamp` (unix seconds).
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const signature = toHex(await hmacSha256(new TextEncoder().encode(secret), `${timestamp}.${body}`));
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a signature header as a receiver would, rejecting timestamps older than `toleranceSec`.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSec = 300,
+  now = new Date(),
+): Promise<boolean> {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.trim().split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSec) return false;
+  const expected = await signWebhookPayload(secret, timestamp, body);
+  // Compare digests so the comparison time does not depend on the input
+  return await sha256Hex(expected) === await sha256Hex(`t=${timestamp},v1=${parts.v1}`);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): 30s, 60s, 120s, ... capped at an hour.
+ */
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1));
+}
+
+/**
+ * POST a JSON body to a webhook URL. Only 2xx responses count as delivered.
+ */
+export async function deliverWebhook(
+  rawUrl: string,
+  body: string,
+  headers: Record<string, string> = {},
+): Promise<WebhookDelivery> {
+  const secret = getWebhookSecret();
+  if (!secret) return { ok: false, error: "WEBHOOK_SECRET is not configured" };
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { ok: false, error: "Invalid webhook URL" };
+  }
+  const checked = await checkRemoteUrl(url);
+  if (!checked.ok) return { ok: false, error: checked.error.message };
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      redirect: "manual",
+      signal: AbortSignal.timeout(getTimeoutMs()),
+      headers: {
+        ...headers,
+        "Content-Type": "application/json",
+        "X-Webhook-Signature": await signWebhookPayload(secret, Math.floor(Date.now() / 1000), body),
+      },
+      body,
+    });
+    await response.body?.cancel();
+    if (response.status >= 200 && response.status < 300) return { ok: true, status: response.status };
+    return { ok: false, status: response.status, error: `Webhook returned HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -5,32 +5,136 @@
  */
 
 // --- Utils ---
-import { corsResponse } from "./lib/utils/cors.ts";
+import { corsResponse, getCorsHeaders } from "./lib/utils/cors.ts";
 import { errorResponse, jsonResponse, generateRequestId } from "./lib/utils/errors.ts";
-import { logRequest, logError } from "./lib/utils/logging.ts";
-import { passthroughSSE } from "./lib/streaming/sse.ts";
+import { logRequest, logError, logWarn } from "./lib/utils/logging.ts";
+import { passthroughSSE, normalizedSSE, estimateStreamUsage, findStreamUsage } from "./lib/streaming/sse.ts";
 
 // --- Auth ---
-import { authMiddleware } from "./lib/auth/middleware.ts";
+import { authMiddleware, getResourceOwner } from "./lib/auth/middleware.ts";
 import type { AuthContext } from "./lib/auth/types.ts";
+import { getRateLimitRule, getRateLimitSubject } from "./lib/auth/rate_limit.ts";
+import { getUsageScope } from "./lib/auth/quotas.ts";
+import type { UsageScope } from "./lib/auth/quotas.ts";
+import { consumeRateLimit } from "./lib/storage/rate_limits.ts";
 
 // --- Vision API ---
-import { parseVisionRequest, buildVisionPayload } from "./lib/providers/payload.ts";
-import { callBigModel } from "./lib/providers/bigmodel.ts";
-import { callOpenRouter } from "./lib/providers/openrouter.ts";
-import { callZai } from "./lib/providers/zai.ts";
+import {
+  parseVisionRequest,
+  collectImageUrls,
+  validateMessages,
+  validateGenerationParams,
+  validateProviderParams,
+  applyGenerationDefaults,
+  prepareInlineImages,
+  resolveProvider,
+  GENERATION_PARAM_KEYS,
+} from "./lib/providers/payload.ts";
+import type { VisionInput } from "./lib/providers/payload.ts";
+import { getProvider, listProviders } from "./lib/providers/registry.ts";
+import { normalizeCompletion, normalizeUsage } from "./lib/providers/normalize.ts";
+import { callWithFailover, formatAttempts, FailoverError } from "./lib/providers/failover.ts";
+import type { FailoverResult } from "./lib/providers/failover.ts";
+import { callWithStructuredOutput, getStructuredSpec, SchemaMismatchError } from "./lib/providers/structured.ts";
+import { parseBatchRequest } from "./lib/providers/batch.ts";
+import type { BatchItem } from "./lib/providers/batch.ts";
+import { mapWithConcurrency } from "./lib/utils/concurrency.ts";
 
-// --- Image Upload (R2) ---
-import { putObjectToR2, presignGetObjectUrl, getPublicObjectUrl } from "./lib/storage/r2.ts";
-import { sniffImageInfo } from "./lib/utils/image.ts";
+// --- Image Upload (object storage) ---
+import {
+  createContentObjectKey,
+  createTmpObjectKey,
+  getObjectStore,
+  getObjectUrl,
+  ObjectTooLargeError,
+} from "./lib/storage/object_store.ts";
+import { verifyLocalObjectUrl } from "./lib/storage/local_store.ts";
+import { sha256Hex } from "./lib/utils/hash.ts";
+import { checkRemoteUrl } from "./lib/utils/remote_image.ts";
+import { deliverWebhook, getWebhookSecret, webhookRetryDelayMs } from "./lib/utils/webhook.ts";
+import {
+  deletePendingUpload,
+  getImageByHash,
+  getOwnedImage,
+  getPendingUpload,
+  isImageDedupEnabledByDefault,
+  listImageOwners,
+  listOwnedImages,
+  PRESIGN_UPLOAD_TTL_SEC,
+  recordImageHash,
+  recordImageOwner,
+  recordPendingUpload,
+  removeImageOwner,
+} from "./lib/storage/images.ts";
+import {
+  imageExtension,
+  imageFormatFromMime,
+  imageMimeType,
+  isPdfData,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGE_PX,
+  PDF_MIME_TYPE,
+  sniffImageInfo,
+  SUPPORTED_IMAGE_FORMATS,
+  UPLOAD_MIME_TYPES,
+} from "./lib/utils/image.ts";
+import type { ImageInfo } from "./lib/utils/image.ts";
+import { isResizeEnabledByDefault, MAX_RESIZE_INPUT_BYTES, prepareImage } from "./lib/utils/resize.ts";
+import {
+  getDefaultStripMode,
+  isTransposedOrientation,
+  jpegImageDataOffset,
+  parseStripMode,
+  readJpegExif,
+  stripJpegMetadata,
+} from "./lib/utils/exif.ts";
 
 // --- Prompts API ---
+import {
+  createSession,
+  getSession,
+  appendSessionMessages,
+  SessionConflictError,
+  SessionTooLargeError,
+} from "./lib/storage/sessions.ts";
 import { createPrompt, getPrompt, updatePrompt, deletePrompt, listPrompts, getDefaultPrompt, setDefaultPrompt, syncDefaultForNamespace, syncDefaultMappingsAll, findPromptByCriteria, findDefaultVisionPrompt } from "./lib/storage/prompts.ts";
-import type { PromptCreate, PromptUpdate, PromptListFilters } from "./lib/storage/types.ts";
+import type { PromptCreate, PromptUpdate, PromptListFilters, SessionCreate, VisionJob } from "./lib/storage/types.ts";
+import { cleanupTmpImages, MIN_TMP_TTL_SEC } from "./lib/storage/cleanup.ts";
+import {
+  getCachedVisionResponse,
+  getVisionCacheKey,
+  isVisionCacheEnabled,
+  parseCachePolicy,
+  setCachedVisionResponse,
+} from "./lib/storage/vision_cache.ts";
+import {
+  createVisionJob,
+  enqueueJobMessage,
+  getVisionJob,
+  getWebhookMaxAttempts,
+  JobTooLargeError,
+  listenJobQueue,
+  runVisionJob,
+  updateVisionJob,
+} from "./lib/storage/jobs.ts";
+import type { JobQueueMessage } from "./lib/storage/jobs.ts";
+import { checkUsageQuota, getMonthlyTokens, listUsage, recordUsage } from "./lib/storage/usage.ts";
+import {
+  addUsageTotals,
+  emptyUsageTotals,
+  nextMonthStart,
+  parseUsageRange,
+  sumUsage,
+  usageToCsv,
+} from "./lib/utils/usage_report.ts";
+import type { UsageTotals } from "./lib/storage/types.ts";
 
 // --- Router Patterns ---
 const VISION_ANALYZE_PATTERN = new URLPattern({ pathname: "/v1/vision/analyze" });
 const VISION_STREAM_PATTERN = new URLPattern({ pathname: "/v1/vision/stream" });
+const VISION_BATCH_PATTERN = new URLPattern({ pathname: "/v1/vision/batch" });
+const VISION_JOB_CREATE_PATTERN = new URLPattern({ pathname: "/v1/vision/jobs" });
+const VISION_JOB_GET_PATTERN = new URLPattern({ pathname: "/v1/vision/jobs/:id" });
 const PROMPT_CREATE_PATTERN = new URLPattern({ pathname: "/v1/prompts" });
 const PROMPT_LIST_PATTERN = new URLPattern({ pathname: "/v1/prompts" });
 const PROMPT_GET_PATTERN = new URLPattern({ pathname: "/v1/prompts/:id" });
@@ -39,14 +143,25 @@ const PROMPT_DELETE_PATTERN = new URLPattern({ pathname: "/v1/prompts/:id" });
 const PROMPT_GET_DEFAULT_PATTERN = new URLPattern({ pathname: "/v1/prompts/default" });
 const PROMPT_SET_DEFAULT_PATTERN = new URLPattern({ pathname: "/v1/prompts/:id/default" });
 const ADMIN_SYNC_DEFAULTS_PATTERN = new URLPattern({ pathname: "/admin/prompts/defaults/sync" });
+const ADMIN_IMAGE_CLEANUP_PATTERN = new URLPattern({ pathname: "/admin/images/cleanup" });
+const USAGE_PATTERN = new URLPattern({ pathname: "/v1/usage" });
+const ADMIN_USAGE_PATTERN = new URLPattern({ pathname: "/admin/usage" });
 const HEALTHZ_PATTERN = new URLPattern({ pathname: "/healthz" });
 const READYZ_PATTERN = new URLPattern({ pathname: "/readyz" });
 const IMAGE_UPLOAD_PATTERN = new URLPattern({ pathname: "/v1/images/upload" });
+const IMAGE_PRESIGN_PATTERN = new URLPattern({ pathname: "/v1/images/presign-upload" });
+const IMAGE_COMPLETE_PATTERN = new URLPattern({ pathname: "/v1/images/:key+/complete" });
+const IMAGE_LIST_PATTERN = new URLPattern({ pathname: "/v1/images" });
+const IMAGE_KEY_PATTERN = new URLPattern({ pathname: "/v1/images/:key+" });
+const LOCAL_OBJECT_PATTERN = new URLPattern({ pathname: "/local-objects/:key+" });
+const SESSION_CREATE_PATTERN = new URLPattern({ pathname: "/v1/sessions" });
+const SESSION_GET_PATTERN = new URLPattern({ pathname: "/v1/sessions/:id" });
+const SESSION_MESSAGES_PATTERN = new URLPattern({ pathname: "/v1/sessions/:id/messages" });
 
 /**
  * Main request handler.
  */
-async function handler(req: Request): Promise<Response> {
+async function handler(req: Request, info?: Deno.ServeHandlerInfo): Promise<Response> {
   const url = new URL(req.url);
   const startTime = Date.now();
   const requestId = req.headers.get("X-Request-Id") || generateRequestId();
@@ -73,94 +188,266 @@ async function handler(req: Request): Promise<Response> {
     }
     const authContext = authResult.context;
 
-    const visionAnalyzeMatch = VISION_ANALYZE_PATTERN.exec(url);
-    if (visionAnalyzeMatch && req.method === "POST") {
-      return await handleVisionAnalyze(req, requestId, startTime, false);
+    const remoteAddr = (info?.remoteAddr as Deno.NetAddr | undefined)?.hostname;
+    const rateLimit = await enforceRateLimit(req, url.pathname, authContext, requestId, remoteAddr);
+    if (rateLimit.limited) {
+      logRequest(req, 429, Date.now() - startTime, { request_id: requestId, rate_limited: true });
+      return rateLimit.limited;
     }
 
-    const visionStreamMatch = VISION_STREAM_PATTERN.exec(url);
-    if (visionStreamMatch && req.method === "POST") {
-      return await handleVisionAnalyze(req, requestId, startTime, true);
-    }
+    const response = await routeRequest(req, url, authContext, requestId, startTime, remoteAddr);
+    return withHeaders(response, rateLimit.headers);
+  } catch (error) {
+    logError({ request_id: requestId, route: url.pathname, method: req.method, error: String(error) });
+    return errorResponse(req, {
+      code: "INTERNAL_ERROR",
+      message: error instanceof Error ? error.message : "Internal Server Error",
+      status: 500,
+      requestId,
+    });
+  }
+}
 
-    const healthzMatch = HEALTHZ_PATTERN.exec(url);
-    if (healthzMatch && req.method === "GET") {
-      const response = jsonResponse(req, { ok: true, ts: Date.now() });
-      logRequest(req, 200, Date.now() - startTime, { request_id: requestId });
-      return response;
-    }
+/**
+ * Dispatches an authorized, rate-limited request to its route handler.
+ */
+async function routeRequest(
+  req: Request,
+  url: URL,
+  authContext: AuthContext,
+  requestId: string,
+  startTime: number,
+  remoteAddr?: string,
+): Promise<Response> {
+  const visionAnalyzeMatch = VISION_ANALYZE_PATTERN.exec(url);
+  if (visionAnalyzeMatch && req.method === "POST") {
+    return await handleVisionAnalyze(req, requestId, startTime, false, getUsageScope(authContext));
+  }
 
-    const readyzMatch = READYZ_PATTERN.exec(url);
-    if (readyzMatch && req.method === "GET") {
-      return await handleReadyz(req, requestId, startTime);
-    }
+  const visionStreamMatch = VISION_STREAM_PATTERN.exec(url);
+  if (visionStreamMatch && req.method === "POST") {
+    return await handleVisionAnalyze(req, requestId, startTime, true, getUsageScope(authContext));
+  }
 
-    const imageUploadMatch = IMAGE_UPLOAD_PATTERN.exec(url);
-    if (imageUploadMatch && req.method === "POST") {
-      return await handleUploadImage(req, requestId);
-    }
+  const visionBatchMatch = VISION_BATCH_PATTERN.exec(url);
+  if (visionBatchMatch && req.method === "POST") {
+    return await handleVisionBatch(req, authContext, requestId, startTime, remoteAddr);
+  }
 
-    const promptCreateMatch = PROMPT_CREATE_PATTERN.exec(url);
-    if (promptCreateMatch && req.method === "POST") {
-      return await handleCreatePrompt(req, requestId);
-    }
+  const visionJobCreateMatch = VISION_JOB_CREATE_PATTERN.exec(url);
+  if (visionJobCreateMatch && req.method === "POST") {
+    return await handleCreateVisionJob(req, authContext, requestId);
+  }
 
-    const promptListMatch = PROMPT_LIST_PATTERN.exec(url);
-    if (promptListMatch && req.method === "GET") {
-      return await handleListPrompts(req, requestId);
-    }
+  const visionJobGetMatch = VISION_JOB_GET_PATTERN.exec(url);
+  if (visionJobGetMatch && req.method === "GET") {
+    const id = visionJobGetMatch.pathname.groups.id!;
+    return await handleGetVisionJob(req, id, authContext, requestId);
+  }
 
-    // Check specific default route before generic :id route
-    const promptGetDefaultMatch = PROMPT_GET_DEFAULT_PATTERN.exec(url);
-    if (promptGetDefaultMatch && req.method === "GET") {
-      return await handleGetDefaultPrompt(req, requestId);
-    }
+  const usageMatch = USAGE_PATTERN.exec(url);
+  if (usageMatch && req.method === "GET") {
+    return await handleGetUsage(req, authContext, requestId);
+  }
 
-    const promptGetMatch = PROMPT_GET_PATTERN.exec(url);
-    if (promptGetMatch && req.method === "GET") {
-      const id = promptGetMatch.pathname.groups.id!;
-      return await handleGetPrompt(req, id, requestId);
-    }
-    const promptUpdateMatch = PROMPT_UPDATE_PATTERN.exec(url);
-    if (promptUpdateMatch && req.method === "PUT") {
-      const id = promptUpdateMatch.pathname.groups.id!;
-      return await handleUpdatePrompt(req, id, requestId);
-    }
+  const adminUsageMatch = ADMIN_USAGE_PATTERN.exec(url);
+  if (adminUsageMatch && req.method === "GET") {
+    return await handleAdminUsage(req, requestId);
+  }
+
+  const healthzMatch = HEALTHZ_PATTERN.exec(url);
+  if (healthzMatch && req.method === "GET") {
+    const response = jsonResponse(req, { ok: true, ts: Date.now() });
+    logRequest(req, 200, Date.now() - startTime, { request_id: requestId });
+    return response;
+  }
+
+  const readyzMatch = READYZ_PATTERN.exec(url);
+  if (readyzMatch && req.method === "GET") {
+    return await handleReadyz(req, requestId, startTime);
+  }
+
+  const imageUploadMatch = IMAGE_UPLOAD_PATTERN.exec(url);
+  if (imageUploadMatch && req.method === "POST") {
+    return await handleUploadImage(req, authContext, requestId);
+  }
+
+  const imagePresignMatch = IMAGE_PRESIGN_PATTERN.exec(url);
+  if (imagePresignMatch && req.method === "POST") {
+    return await handlePresignUpload(req, authContext, requestId);
+  }
 
-    const promptDeleteMatch = PROMPT_DELETE_PATTERN.exec(url);
-    if (promptDeleteMatch && req.method === "DELETE") {
-      const id = promptDeleteMatch.pathname.groups.id!;
-      return await handleDeletePrompt(req, id, requestId);
+  const imageCompleteMatch = IMAGE_COMPLETE_PATTERN.exec(url);
+  if (imageCompleteMatch && req.method === "POST") {
+    let key: string;
+    try {
+      key = decodeURIComponent(imageCompleteMatch.pathname.groups.key!);
+    } catch {
+      return errorResponse(req, { code: "INVALID_IMAGE_KEY", message: "Malformed image key", status: 400, requestId });
     }
+    return await handleCompleteUpload(req, key, authContext, requestId);
+  }
+
+  const imageListMatch = IMAGE_LIST_PATTERN.exec(url);
+  if (imageListMatch && req.method === "GET") {
+    return await handleListImages(req, authContext, requestId);
+  }
 
-    const promptSetDefaultMatch = PROMPT_SET_DEFAULT_PATTERN.exec(url);
-    if (promptSetDefaultMatch && req.method === "PUT") {
-      const id = promptSetDefaultMatch.pathname.groups.id!;
-      return await handleSetDefaultPrompt(req, id, requestId);
+  const imageKeyMatch = IMAGE_KEY_PATTERN.exec(url);
+  if (imageKeyMatch && (req.method === "GET" || req.method === "DELETE")) {
+    let key: string;
+    try {
+      // Keys may be sent with raw or percent-encoded slashes
+      key = decodeURIComponent(imageKeyMatch.pathname.groups.key!);
+    } catch {
+      return errorResponse(req, { code: "INVALID_IMAGE_KEY", message: "Malformed image key", status: 400, requestId });
     }
+    return req.method === "GET"
+      ? await handleGetImage(req, key, authContext, requestId)
+      : await handleDeleteImage(req, key, authContext, requestId);
+  }
 
-    const adminSyncDefaultsMatch = ADMIN_SYNC_DEFAULTS_PATTERN.exec(url);
-    if (adminSyncDefaultsMatch && req.method === "POST") {
-      return await handleSyncDefaults(req, requestId);
+  const localObjectMatch = LOCAL_OBJECT_PATTERN.exec(url);
+  if (localObjectMatch && (req.method === "GET" || req.method === "PUT")) {
+    let key: string;
+    try {
+      key = decodeURIComponent(localObjectMatch.pathname.groups.key!);
+    } catch {
+      return errorResponse(req, { code: "INVALID_IMAGE_KEY", message: "Malformed object key", status: 400, requestId });
     }
+    return await handleLocalObject(req, key, requestId);
+  }
 
-    // 404 Not Found
-    logRequest(req, 404, Date.now() - startTime, { request_id: requestId });
-    return errorResponse(req, { code: "NOT_FOUND", message: "Not Found", status: 404, requestId });
+  const sessionCreateMatch = SESSION_CREATE_PATTERN.exec(url);
+  if (sessionCreateMatch && req.method === "POST") {
+    return await handleCreateSession(req, authContext, requestId);
+  }
 
-  } catch (error) {
-    logError({ request_id: requestId, route: url.pathname, method: req.method, error: String(error) });
-    return errorResponse(req, {
-      code: "INTERNAL_ERROR",
-      message: error instanceof Error ? error.message : "Internal Server Error",
-      status: 500,
-      requestId,
-    });
+  const sessionGetMatch = SESSION_GET_PATTERN.exec(url);
+  if (sessionGetMatch && req.method === "GET") {
+    const id = sessionGetMatch.pathname.groups.id!;
+    return await handleGetSession(req, id, authContext, requestId);
+  }
+
+  const sessionMessagesMatch = SESSION_MESSAGES_PATTERN.exec(url);
+  if (sessionMessagesMatch && req.method === "POST") {
+    const id = sessionMessagesMatch.pathname.groups.id!;
+    return await handleSessionMessage(req, id, authContext, requestId, startTime);
+  }
+
+  const promptCreateMatch = PROMPT_CREATE_PATTERN.exec(url);
+  if (promptCreateMatch && req.method === "POST") {
+    return await handleCreatePrompt(req, requestId);
   }
+
+  const promptListMatch = PROMPT_LIST_PATTERN.exec(url);
+  if (promptListMatch && req.method === "GET") {
+    return await handleListPrompts(req, requestId);
+  }
+
+  // Check specific default route before generic :id route
+  const promptGetDefaultMatch = PROMPT_GET_DEFAULT_PATTERN.exec(url);
+  if (promptGetDefaultMatch && req.method === "GET") {
+    return await handleGetDefaultPrompt(req, requestId);
+  }
+
+  const promptGetMatch = PROMPT_GET_PATTERN.exec(url);
+  if (promptGetMatch && req.method === "GET") {
+    const id = promptGetMatch.pathname.groups.id!;
+    return await handleGetPrompt(req, id, requestId);
+  }
+  const promptUpdateMatch = PROMPT_UPDATE_PATTERN.exec(url);
+  if (promptUpdateMatch && req.method === "PUT") {
+    const id = promptUpdateMatch.pathname.groups.id!;
+    return await handleUpdatePrompt(req, id, requestId);
+  }
+
+  const promptDeleteMatch = PROMPT_DELETE_PATTERN.exec(url);
+  if (promptDeleteMatch && req.method === "DELETE") {
+    const id = promptDeleteMatch.pathname.groups.id!;
+    return await handleDeletePrompt(req, id, requestId);
+  }
+
+  const promptSetDefaultMatch = PROMPT_SET_DEFAULT_PATTERN.exec(url);
+  if (promptSetDefaultMatch && req.method === "PUT") {
+    const id = promptSetDefaultMatch.pathname.groups.id!;
+    return await handleSetDefaultPrompt(req, id, requestId);
+  }
+
+  const adminSyncDefaultsMatch = ADMIN_SYNC_DEFAULTS_PATTERN.exec(url);
+  if (adminSyncDefaultsMatch && req.method === "POST") {
+    return await handleSyncDefaults(req, requestId);
+  }
+
+  const adminImageCleanupMatch = ADMIN_IMAGE_CLEANUP_PATTERN.exec(url);
+  if (adminImageCleanupMatch && req.method === "POST") {
+    return await handleImageCleanup(req, requestId);
+  }
+
+  // 404 Not Found
+  logRequest(req, 404, Date.now() - startTime, { request_id: requestId });
+  return errorResponse(req, { code: "NOT_FOUND", message: "Not Found", status: 404, requestId });
+}
+
+/**
+ * Adds headers the response does not set itself (e.g. the batch item limit of a 429).
+ * Responses from fetch have immutable headers, so a copy is returned.
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  if (Object.keys(headers).length === 0) return response;
+  const merged = new Headers(response.headers);
+  for (const [name, value] of Object.entries(headers)) {
+    if (!merged.has(name)) merged.set(name, value);
+  }
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers: merged });
 }
 
 // --- Route Handlers ---
 
+type RateLimitOutcome = { limited: Response | null; headers: Record<string, string> };
+
+/**
+ * Applies the rate limit of `pathname` (with the request method) to the request subject,
+ * counting `cost` requests. Returns the 429 response when exceeded, otherwise the
+ * X-RateLimit-* headers for the response. KV failures are logged and let the request through.
+ */
+async function enforceRateLimit(
+  req: Request,
+  pathname: string,
+  authContext: AuthContext,
+  requestId: string,
+  remoteAddr?: string,
+  cost = 1,
+): Promise<RateLimitOutcome> {
+  const resolved = getRateLimitRule(req.method, pathname);
+  if (!resolved) return { limited: null, headers: {} };
+  try {
+    const subject = await getRateLimitSubject(req, authContext, remoteAddr);
+    const now = Date.now();
+    const decision = await consumeRateLimit(resolved.route, subject, resolved.rule, now, cost);
+    const headers = {
+      "X-RateLimit-Limit": String(decision.limit),
+      "X-RateLimit-Remaining": String(decision.remaining),
+      "X-RateLimit-Reset": String(Math.ceil(decision.resetAt / 1000)),
+    };
+    if (decision.allowed) return { limited: null, headers };
+    const window = `${decision.limit} requests per ${resolved.rule.windowSec}s`;
+    const limited = errorResponse(req, {
+      code: "RATE_LIMITED",
+      message: cost > 1
+        ? `Rate limit exceeded: ${cost} items, ${decision.remaining} of ${window} left`
+        : `Rate limit exceeded: ${window}`,
+      status: 429,
+      requestId,
+      headers: { "Retry-After": String(Math.max(1, Math.ceil((decision.resetAt - now) / 1000))), ...headers },
+    });
+    return { limited, headers };
+  } catch (error) {
+    logError({ request_id: requestId, route: resolved.route, rate_limit_error: String(error) });
+    return { limited: null, headers: {} };
+  }
+}
+
 /**
  * Readiness check - verifies KV is accessible.
  */
@@ -189,11 +476,24 @@ async function handleReadyz(req: Request, requestId: string, startTime: number):
   }
 }
 
+/**
+ * Validate default generation params stored with a prompt.
+ */
+function validatePromptParams(params: unknown): string | null {
+  if (!params || typeof params !== "object" || Array.isArray(params)) return "params must be an object";
+  const unknownKey = Object.keys(params).find((key) => !(GENERATION_PARAM_KEYS as readonly string[]).includes(key));
+  if (unknownKey) return `Unknown generation param '${unknownKey}'`;
+  return validateGenerationParams(params as Record<string, unknown>);
+}
+
 async function handleCreatePrompt(req: Request, requestId: string): Promise<Response> {
     // Auth already checked by middleware
     try {
         const data = await req.json() as PromptCreate;
-        // Basic validation can be added here later
+        const paramsError = data?.params !== undefined ? validatePromptParams(data.params) : null;
+        if (paramsError) {
+            return errorResponse(req, { code: "INVALID_GENERATION_PARAMS", message: paramsError, status: 400, requestId });
+        }
         const newPrompt = await createPrompt(data);
         return jsonResponse(req, newPrompt, 201);
     } catch (error) {
@@ -258,6 +558,10 @@ async function handleUpdatePrompt(req: Request, id: string, requestId: string):
     // Auth already checked by middleware
     try {
         const data = await req.json() as PromptUpdate;
+        const paramsError = data?.params !== undefined ? validatePromptParams(data.params) : null;
+        if (paramsError) {
+            return errorResponse(req, { code: "INVALID_GENERATION_PARAMS", message: paramsError, status: 400, requestId });
+        }
         const updatedPrompt = await updatePrompt(id, data);
 
         if (!updatedPrompt) {
@@ -298,211 +602,1382 @@ async function handleDeletePrompt(req: Request, id: string, requestId: string):
     }
 }
 
+type PromptResolution =
+  | { ok: true; promptMeta?: Record<string, unknown> }
+  | { ok: false; error: { code: string; message: string; status: number } };
+
+/**
+ * Resolve the prompt from KV (prompt_id, prompt_kv or the default prompt) when no inline prompt is given.
+ * With conversation `messages` (or `asSystem`), KV prompts become system text and the
+ * default prompt is optional.
+ */
+async function resolveVisionPrompt(
+  input: VisionInput,
+  opts: { asSystem?: boolean } = {},
+): Promise<PromptResolution> {
+  const hasInlinePrompt = typeof input.prompt === "string" && input.prompt.trim().length > 0;
+  const hasPromptId = typeof input.prompt_id === "string" && input.prompt_id.trim().length > 0;
+  const hasPromptKv = input.prompt_kv !== undefined;
+  const asSystem = opts.asSystem ?? (Array.isArray(input.messages) && input.messages.length > 0);
+
+  if (hasInlinePrompt && !asSystem) {
+    return { ok: true };
+  }
+  if (hasPromptId && hasPromptKv) {
+    return { ok: false, error: { code: "INVALID_PROMPT_SELECTOR", message: "Use either prompt_id or prompt_kv", status: 400 } };
+  }
+
+  const apply = (text: string) => {
+    if (asSystem) input.system = [text, input.system].filter(Boolean).join("\n\n");
+    else input.prompt = text;
+  };
+
+  if (hasPromptId) {
+    const resolved = await getPrompt(input.prompt_id!);
+    if (!resolved) {
+      return { ok: false, error: { code: "PROMPT_NOT_FOUND", message: "Prompt not found for provided id", status: 404 } };
+    }
+    apply(resolved.text);
+    applyGenerationDefaults(input, resolved.params);
+    return { ok: true, promptMeta: { prompt_source: "kv_id", prompt_id: resolved.id } };
+  }
+
+  if (hasPromptKv) {
+    const resolved = await findPromptByCriteria(input.prompt_kv!);
+    if (!resolved) {
+      return { ok: false, error: { code: "PROMPT_NOT_FOUND", message: "Prompt not found for provided criteria", status: 404 } };
+    }
+    apply(resolved.text);
+    applyGenerationDefaults(input, resolved.params);
+    return { ok: true, promptMeta: { prompt_source: "kv", prompt_id: resolved.id } };
+  }
+
+  if (hasInlinePrompt) {
+    return { ok: true };
+  }
+
+  const resolved = await findDefaultVisionPrompt();
+  if (!resolved) {
+    if (asSystem) return { ok: true };
+    return { ok: false, error: { code: "PROMPT_NOT_FOUND", message: "Default prompt not found", status: 404 } };
+  }
+  apply(resolved.text);
+  applyGenerationDefaults(input, resolved.params);
+  return { ok: true, promptMeta: { prompt_source: "kv_default", prompt_id: resolved.id } };
+}
+
+type VisionInputError = { code: string; message: string; status: number; details?: unknown };
+
+/**
+ * Request-level checks shared by the synchronous vision routes and job creation
+ * (response_mode, response_format, provider, messages and generation params).
+ */
+function validateVisionInput(input: VisionInput): VisionInputError | null {
+  if (input.response_mode !== undefined && input.response_mode !== "raw" && input.response_mode !== "normalized") {
+    return { code: "INVALID_RESPONSE_MODE", message: "response_mode must be 'raw' or 'normalized'", status: 400 };
+  }
+  const structuredResult = getStructuredSpec(input);
+  if (!structuredResult.ok) {
+    return { code: "INVALID_RESPONSE_FORMAT", message: structuredResult.message, status: 400 };
+  }
+  if (input.provider !== undefined) {
+    const requested = getProvider(input.provider);
+    if (!requested) {
+      return {
+        code: "INVALID_PROVIDER",
+        message: `Unsupported provider '${String(input.provider)}'`,
+        status: 400,
+        details: { supported: listProviders().map((p) => p.name) },
+      };
+    }
+    if (!requested.capabilities.multiImage && collectImageUrls(input).length > 1) {
+      return {
+        code: "UNSUPPORTED_INPUT",
+        message: `Provider '${requested.name}' accepts a single image per request`,
+        status: 400,
+      };
+    }
+  }
+  const messagesError = validateMessages(input.messages);
+  if (messagesError) {
+    return { code: "INVALID_MESSAGES", message: messagesError, status: 400 };
+  }
+  const paramsError = validateGenerationParams(input as Record<string, unknown>) ??
+    validateProviderParams(resolveProvider(input.provider), input as Record<string, unknown>);
+  if (paramsError) {
+    return { code: "INVALID_GENERATION_PARAMS", message: paramsError, status: 400 };
+  }
+  return null;
+}
+
+/**
+ * Vision request pipeline. With a usage scope, the monthly token quota is checked before
+ * calling the provider and the provider usage is recorded; cache hits are not metered.
+ */
 async function handleVisionAnalyze(
   req: Request,
   requestId: string,
   startTime: number,
-  forceStream = false
+  forceStream = false,
+  usageScope?: UsageScope,
 ): Promise<Response> {
   try {
     const input = await parseVisionRequest(req);
-    const hasInlinePrompt = typeof input.prompt === "string" && input.prompt.trim().length > 0;
-    const hasPromptId = typeof input.prompt_id === "string" && input.prompt_id.trim().length > 0;
-    const hasPromptKv = input.prompt_kv !== undefined;
-    let promptMeta: Record<string, unknown> | undefined;
+    const inputError = validateVisionInput(input);
+    if (inputError) {
+      return errorResponse(req, { ...inputError, requestId });
+    }
+    const structuredResult = getStructuredSpec(input);
+    const structuredSpec = structuredResult.ok ? structuredResult.spec : null;
+    const imageResult = await prepareInlineImages(input);
+    if (!imageResult.ok) {
+      return errorResponse(req, { ...imageResult.error, requestId });
+    }
+    const imageResize = imageResult.resized.length > 0 ? imageResult.resized : undefined;
 
-    if (!hasInlinePrompt) {
-      if (hasPromptId && hasPromptKv) {
-        return errorResponse(req, {
-          code: "INVALID_PROMPT_SELECTOR",
-          message: "Use either prompt_id or prompt_kv",
-          status: 400,
-          requestId,
-        });
-      }
-      if (hasPromptId) {
-        const resolved = await getPrompt(input.prompt_id!);
-        if (!resolved) {
-          return errorResponse(req, {
-            code: "PROMPT_NOT_FOUND",
-            message: "Prompt not found for provided id",
-            status: 404,
-            requestId,
-          });
-        }
-        input.prompt = resolved.text;
-        promptMeta = { prompt_source: "kv_id", prompt_id: resolved.id };
-      } else if (hasPromptKv) {
-        const resolved = await findPromptByCriteria(input.prompt_kv);
-        if (!resolved) {
-          return errorResponse(req, {
-            code: "PROMPT_NOT_FOUND",
-            message: "Prompt not found for provided criteria",
-            status: 404,
-            requestId,
-          });
-        }
-        input.prompt = resolved.text;
-        promptMeta = { prompt_source: "kv", prompt_id: resolved.id };
-      } else {
-        const resolved = await findDefaultVisionPrompt();
-        if (!resolved) {
-          return errorResponse(req, {
-            code: "PROMPT_NOT_FOUND",
-            message: "Default prompt not found",
-            status: 404,
-            requestId,
-          });
-        }
-        input.prompt = resolved.text;
-        promptMeta = { prompt_source: "kv_default", prompt_id: resolved.id };
-      }
+    const promptResult = await resolveVisionPrompt(input);
+    if (!promptResult.ok) {
+      return errorResponse(req, { ...promptResult.error, requestId });
     }
+    const promptMeta = promptResult.promptMeta;
 
     const shouldStream = forceStream || input.stream === true;
-    const { payload, provider } = buildVisionPayload(input);
-
-    let upstreamResponse: Response;
-    switch (provider) {
-      case "zai":
-        upstreamResponse = await callZai(payload, shouldStream);
-        break;
-      case "bigmodel":
-        upstreamResponse = await callBigModel(payload, shouldStream);
-        break;
-      case "openrouter":
-        upstreamResponse = await callOpenRouter(payload, shouldStream);
-        break;
-      default:
-        return errorResponse(req, {
-          code: "INVALID_PROVIDER",
-          message: `Unsupported provider '${String(provider)}'`,
-          status: 400,
-          requestId,
-        });
+    // Structured output is validated (and repaired) only for non-streaming responses
+    const validateStructured = structuredSpec !== null && !shouldStream;
+
+    // Identical payloads replay a cached upstream result (JSON body or SSE text)
+    const cachePolicy = parseCachePolicy(req.headers.get("Cache-Control"));
+    const cacheKey = isVisionCacheEnabled(input) && cachePolicy.write ? await getVisionCacheKey(input, shouldStream) : null;
+    const cached = cacheKey && cachePolicy.read ? await getCachedVisionResponse(cacheKey) : null;
+    if (!cached && usageScope) {
+      const quotaExceeded = await enforceUsageQuota(req, usageScope, requestId);
+      if (quotaExceeded) return quotaExceeded;
+    }
+    const usageMeta = { images: collectImageUrls(input).length };
+
+    let result: FailoverResult;
+    let jsonData: unknown;
+    let structuredValue: unknown;
+    let schemaRepairs: number | undefined;
+    if (cached) {
+      result = { response: new Response(cached.body), provider: cached.provider, model: cached.model, attempts: [] };
+      if (validateStructured) {
+        jsonData = JSON.parse(cached.body);
+        structuredValue = cached.structured;
+      }
+    } else if (validateStructured) {
+      // Every completion is metered, including repairs and a final mismatch (422)
+      const structured = await callWithStructuredOutput(
+        input,
+        structuredSpec,
+        (i) => callWithFailover(i, false),
+        usageScope
+          ? (attempt, data) =>
+            recordRequestUsage(
+              usageScope,
+              { provider: attempt.provider, model: attempt.model, ...usageMeta },
+              (data as Record<string, unknown> | null)?.usage,
+              requestId,
+            )
+          : undefined,
+      );
+      result = structured.result;
+      jsonData = structured.data;
+      structuredValue = structured.value;
+      schemaRepairs = structured.repairs;
+    } else {
+      result = await callWithFailover(input, shouldStream);
     }
 
+    const { provider, model, attempts } = result;
+    let upstreamResponse = result.response;
+    const providerHeaders = {
+      "X-Vision-Provider": provider,
+      "X-Vision-Model": model,
+      "X-Vision-Attempts": formatAttempts(attempts),
+      ...(cacheKey ? { "X-Cache": cached ? "HIT" : "MISS" } : {}),
+    };
+    const logMeta = {
+      request_id: requestId,
+      provider,
+      model,
+      attempts,
+      fallback_used: attempts.length > 1,
+      ...(cacheKey ? { cache: cached ? "hit" : "miss" } : {}),
+      ...(structuredSpec ? { structured: structuredSpec.mode, schema_repairs: schemaRepairs } : {}),
+      ...(imageResize ? { images_resized: imageResize.length } : {}),
+      ...(imageResult.fetched > 0 ? { images_fetched: imageResult.fetched } : {}),
+      ...(promptMeta ?? {}),
+    };
+
     if (shouldStream) {
-      const response = passthroughSSE(req, upstreamResponse);
-      logRequest(req, 200, Date.now() - startTime, { request_id: requestId, provider, stream: true, ...(promptMeta ?? {}) });
+      if (!cached && (cacheKey || usageScope) && upstreamResponse.body) {
+        const [clientBody, sideBody] = upstreamResponse.body.tee();
+        upstreamResponse = new Response(clientBody);
+        observeStreamedResponse(sideBody, { cacheKey, usageScope, provider, model, ...usageMeta }, requestId);
+      }
+      const response = input.response_mode === "normalized"
+        ? normalizedSSE(req, upstreamResponse, { provider, model, requestId, promptMeta }, providerHeaders)
+        : passthroughSSE(req, upstreamResponse, providerHeaders);
+      logRequest(req, 200, Date.now() - startTime, { ...logMeta, stream: true, response_mode: input.response_mode ?? "raw" });
       return response;
     }
 
-    const jsonData = await upstreamResponse.json();
-    const response = jsonResponse(req, jsonData);
-    logRequest(req, 200, Date.now() - startTime, { request_id: requestId, provider, stream: false, ...(promptMeta ?? {}) });
+    if (!validateStructured) {
+      jsonData = await upstreamResponse.json();
+    }
+    if (usageScope && !cached && !validateStructured) {
+      const usage = (jsonData as Record<string, unknown> | null)?.usage;
+      await recordRequestUsage(usageScope, { provider, model, ...usageMeta }, usage, requestId);
+    }
+    if (cacheKey && !cached) {
+      // Best effort: the completion is already paid for, so a KV failure must not fail the request
+      try {
+        await setCachedVisionResponse(cacheKey, {
+          provider,
+          model,
+          stream: false,
+          body: JSON.stringify(jsonData),
+          ...(validateStructured ? { structured: structuredValue } : {}),
+          createdAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        logError({ request_id: requestId, route: "/v1/vision/*", cache_error: String(error) });
+      }
+    }
+    const body = input.response_mode === "normalized"
+      ? {
+        ...normalizeCompletion(jsonData, { provider, model, requestId, promptMeta }),
+        ...(validateStructured ? { json: structuredValue } : {}),
+        ...(imageResize ? { image_resize: imageResize } : {}),
+      }
+      : jsonData;
+    const response = jsonResponse(req, body, 200, providerHeaders);
+    logRequest(req, 200, Date.now() - startTime, { ...logMeta, stream: false, response_mode: input.response_mode ?? "raw" });
     return response;
   } catch (error) {
-    logError({ request_id: requestId, route: "/v1/vision/*", error: String(error) });
+    if (error instanceof SchemaMismatchError) {
+      logError({ request_id: requestId, route: "/v1/vision/*", error: String(error), schema_errors: error.errors });
+      return errorResponse(req, {
+        code: "VISION_SCHEMA_MISMATCH",
+        message: error.message,
+        status: 422,
+        details: { errors: error.errors, output: error.output, repairs: error.repairs },
+        requestId,
+      });
+    }
+    const attempts = error instanceof FailoverError ? error.attempts : undefined;
+    logError({ request_id: requestId, route: "/v1/vision/*", error: String(error), attempts });
     return errorResponse(req, {
       code: "VISION_ERROR",
       message: error instanceof Error ? error.message : "Vision API error",
       status: 500,
+      details: attempts ? { attempts } : undefined,
       requestId,
     });
   }
 }
 
-async function handleUploadImage(req: Request, requestId: string): Promise<Response> {
-  const contentType = req.headers.get("content-type") || "";
-  const ct = contentType.toLowerCase();
-  if (!ct.startsWith("multipart/form-data")) {
+/**
+ * Read the second branch of a teed SSE stream to record its usage and cache it once the
+ * upstream finished with `[DONE]`; interrupted or failed streams are not cached.
+ */
+function observeStreamedResponse(
+  body: ReadableStream<Uint8Array>,
+  meta: { cacheKey: string | null; usageScope?: UsageScope; provider: string; model: string; images: number },
+  requestId: string,
+): void {
+  const { cacheKey, usageScope, provider, model, images } = meta;
+  new Response(body).text()
+    .then(async (text) => {
+      if (usageScope) {
+        let usage = findStreamUsage(text);
+        if (!usage) {
+          // The upstream ignored stream_options: meter an estimate rather than nothing
+          usage = estimateStreamUsage(text);
+          logWarn({ request_id: requestId, route: "/v1/vision/*", provider, model, usage_estimated: usage });
+        }
+        await recordRequestUsage(usageScope, { provider, model, images }, usage, requestId);
+      }
+      if (!cacheKey || !/^data:\s*\[DONE\]\s*$/m.test(text)) return;
+      await setCachedVisionResponse(cacheKey, { provider, model, stream: true, body: text, createdAt: new Date().toISOString() });
+    })
+    .catch((error) => logError({ request_id: requestId, route: "/v1/vision/*", cache_error: String(error) }));
+}
+
+/**
+ * Returns the 429 response when the scope's monthly token quota is used up.
+ * KV failures are logged and let the request through.
+ */
+async function enforceUsageQuota(req: Request, scope: UsageScope, requestId: string): Promise<Response | null> {
+  if (scope.quota === null) return null;
+  try {
+    const check = await checkUsageQuota(scope.userId, scope.quota);
+    if (check.ok) return null;
     return errorResponse(req, {
-      code: "INVALID_CONTENT_TYPE",
-      message: "Expected multipart/form-data",
-      status: 400,
-      details: { contentType },
+      code: "QUOTA_EXCEEDED",
+      message: `Monthly token quota of ${check.quota} exceeded`,
+      status: 429,
+      details: { used: check.used, quota: check.quota, reset_at: check.resetAt },
       requestId,
+      headers: { "Retry-After": String(Math.max(1, Math.ceil((Date.parse(check.resetAt) - Date.now()) / 1000))) },
     });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/vision/*", quota_error: String(error) });
+    return null;
   }
+}
 
+/**
+ * Records one upstream call (tokens from the provider `usage`, if reported). Failures are
+ * logged and do not affect the response.
+ */
+async function recordRequestUsage(
+  scope: UsageScope,
+  meta: { provider: string; model: string; images: number },
+  usage: unknown,
+  requestId: string,
+): Promise<void> {
+  const normalized = normalizeUsage(usage);
   try {
-    const formData = await req.formData();
-    const file = formData.get("file");
-    if (!(file instanceof File)) {
-      return errorResponse(req, {
-        code: "MISSING_FILE",
-        message: "Form field 'file' is required",
-        status: 400,
-        requestId,
-      });
-    }
+    await recordUsage(scope.userId, {
+      ...meta,
+      promptTokens: normalized?.prompt_tokens ?? 0,
+      completionTokens: normalized?.completion_tokens ?? 0,
+    });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/vision/*", usage_error: String(error) });
+  }
+}
 
-    const allowedMime = new Set(["image/jpeg", "image/png"]);
-    if (!allowedMime.has(file.type)) {
-      return errorResponse(req, {
-        code: "UNSUPPORTED_MEDIA_TYPE",
-        message: `Unsupported file type '${file.type}'. Supported: jpg, jpeg, png`,
-        status: 415,
-        requestId,
-      });
-    }
+type VisionRun =
+  | { ok: true; result: unknown; provider?: string; model?: string; cache?: string }
+  | { ok: false; error: { code: string; message: string; status: number } };
 
-    const maxBytes = 5 * 1024 * 1024; // ZAI limit per image: < 5MB
-    if (file.size <= 0 || file.size > maxBytes) {
-      return errorResponse(req, {
-        code: "FILE_TOO_LARGE",
-        message: `Image size must be > 0 and <= ${maxBytes} bytes`,
-        status: 413,
-        requestId,
-      });
-    }
+/**
+ * Runs a vision request body through handleVisionAnalyze as an internal JSON request
+ * (queued jobs, batch items) and unpacks the response.
+ */
+async function runVisionInput(
+  input: unknown,
+  path: string,
+  requestId: string,
+  usageScope?: UsageScope,
+  headers: Record<string, string> = {},
+): Promise<VisionRun> {
+  const req = new Request(`http://localhost${path}`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json", "X-Request-Id": requestId },
+    body: JSON.stringify(input),
+  });
+  const response = await handleVisionAnalyze(req, requestId, Date.now(), false, usageScope);
+  const body = await response.json().catch(() => null) as Record<string, unknown> | null;
+  if (response.ok) {
+    return {
+      ok: true,
+      result: body,
+      provider: response.headers.get("X-Vision-Provider") ?? undefined,
+      model: response.headers.get("X-Vision-Model") ?? undefined,
+      cache: response.headers.get("X-Cache") ?? undefined,
+    };
+  }
+  return {
+    ok: false,
+    error: {
+      code: typeof body?.code === "string" ? body.code : "VISION_ERROR",
+      message: typeof body?.error === "string" ? body.error : `Vision request failed with HTTP ${response.status}`,
+      status: response.status,
+    },
+  };
+}
 
-    const bytes = new Uint8Array(await file.arrayBuffer());
-    const info = sniffImageInfo(bytes);
-    if (!info) {
-      return errorResponse(req, {
-        code: "INVALID_IMAGE",
-        message: "Invalid or unsupported image data. Supported: jpg, jpeg, png",
-        status: 400,
-        requestId,
-      });
+type BatchItemResult = { index: number; id?: string } & VisionRun;
+
+/**
+ * Runs every batch item through the vision pipeline with bounded concurrency.
+ * Responds with all results in input order, or with NDJSON lines as items complete
+ * (`stream: true` or `Accept: application/x-ndjson`) followed by a `done` summary line.
+ */
+async function handleVisionBatch(
+  req: Request,
+  authContext: AuthContext,
+  requestId: string,
+  startTime: number,
+  remoteAddr?: string,
+): Promise<Response> {
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(req, { code: "INVALID_JSON", message: "Request body must be valid JSON", status: 400, requestId });
+    }
+    const parsed = parseBatchRequest(body);
+    if (!parsed.ok) {
+      return errorResponse(req, { ...parsed.error, requestId });
     }
+    // Every item is a vision call, so items count against the analyze limit as well
+    const itemLimit = await enforceRateLimit(
+      req,
+      "/v1/vision/analyze",
+      authContext,
+      requestId,
+      remoteAddr,
+      parsed.batch.items.length,
+    );
+    if (itemLimit.limited) return itemLimit.limited;
+    const usageScope = getUsageScope(authContext);
+    const quotaExceeded = await enforceUsageQuota(req, usageScope, requestId);
+    if (quotaExceeded) return quotaExceeded;
+    const { items, concurrency } = parsed.batch;
+    const ndjson = parsed.batch.stream || (req.headers.get("Accept") ?? "").includes("application/x-ndjson");
+    const cacheControl = req.headers.get("Cache-Control");
+    const forwardHeaders: Record<string, string> = cacheControl ? { "Cache-Control": cacheControl } : {};
 
-    const maxPx = 6000; // ZAI limit: 6000*6000
-    if (info.width > maxPx || info.height > maxPx) {
-      return errorResponse(req, {
-        code: "IMAGE_TOO_LARGE",
-        message: `Image dimensions must be <= ${maxPx}x${maxPx}`,
-        status: 413,
-        requestId,
-      });
+    const runItem = async (item: BatchItem, index: number): Promise<BatchItemResult> => {
+      const run = await runVisionInput(item.input, "/v1/vision/batch", `${requestId}-${index}`, usageScope, forwardHeaders);
+      return { index, ...(item.id !== undefined ? { id: item.id } : {}), ...run };
+    };
+    const summarize = (results: BatchItemResult[]) => {
+      const succeeded = results.filter((result) => result?.ok).length;
+      return { total: items.length, succeeded, failed: results.filter((result) => result && !result.ok).length };
+    };
+    const logMeta = { request_id: requestId, batch_items: items.length, concurrency };
+
+    if (!ndjson) {
+      const results = await mapWithConcurrency(items, concurrency, runItem);
+      const summary = summarize(results);
+      logRequest(req, 200, Date.now() - startTime, { ...logMeta, ...summary, stream: false });
+      return jsonResponse(req, { ...summary, results });
     }
 
-    const ext = info.format === "png" ? "png" : "jpg";
-    const now = new Date();
-    const y = now.getUTCFullYear().toString().padStart(4, "0");
-    const m = (now.getUTCMonth() + 1).toString().padStart(2, "0");
-    const d = now.getUTCDate().toString().padStart(2, "0");
-    const key = `tmp/${y}/${m}/${d}/${crypto.randomUUID()}.${ext}`;
-
-    const putResult = await putObjectToR2(key, bytes, file.type);
-
-    const publicUrl = getPublicObjectUrl(key);
-    if (publicUrl) {
-      return jsonResponse(req, {
-        key: putResult.key,
-        url: publicUrl,
-        etag: putResult.etag,
-        contentType: file.type,
-        size: file.size,
-        width: info.width,
-        height: info.height,
-      }, 201);
-    }
-
-    const signed = await presignGetObjectUrl(key, 3600);
-    return jsonResponse(req, {
-      key: putResult.key,
-      url: signed.url,
-      expiresInSec: signed.expiresInSec,
-      etag: putResult.etag,
-      contentType: file.type,
-      size: file.size,
-      width: info.width,
-      height: info.height,
+    const encoder = new TextEncoder();
+    const line = (value: unknown) => encoder.encode(JSON.stringify(value) + "\n");
+    // Aborted when the client disconnects, so remaining items are not started
+    const aborter = new AbortController();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const completed: BatchItemResult[] = [];
+        mapWithConcurrency(items, concurrency, runItem, {
+          signal: aborter.signal,
+          onResult: (result) => {
+            completed.push(result);
+            if (!aborter.signal.aborted) controller.enqueue(line({ type: "item", ...result }));
+          },
+        })
+          .then(() => {
+            const summary = summarize(completed);
+            logRequest(req, 200, Date.now() - startTime, { ...logMeta, ...summary, stream: true, aborted: aborter.signal.aborted });
+            if (aborter.signal.aborted) return;
+            controller.enqueue(line({ type: "done", ...summary }));
+            controller.close();
+          })
+          .catch((error) => {
+            logError({ request_id: requestId, route: "/v1/vision/batch", error: String(error) });
+            if (!aborter.signal.aborted) controller.error(error);
+          });
+      },
+      cancel() {
+        aborter.abort();
+      },
+    });
+    return new Response(stream, {
+      headers: {
+        ...getCorsHeaders(req),
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/vision/batch", error: String(error) });
+    return errorResponse(req, {
+      code: "VISION_BATCH_FAILED",
+      message: error instanceof Error ? error.message : "Batch request failed",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+/**
+ * Queues a vision request for background processing. The body is the same as for
+ * `/v1/vision/analyze` plus an optional `callback_url`; results are always non-streaming.
+ */
+async function handleCreateVisionJob(req: Request, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const input = await parseVisionRequest(req);
+    const inputError = validateVisionInput(input);
+    if (inputError) {
+      return errorResponse(req, { ...inputError, requestId });
+    }
+
+    const callbackUrl = input.callback_url;
+    delete input.callback_url;
+    if (callbackUrl !== undefined) {
+      let url: URL;
+      try {
+        url = new URL(String(callbackUrl));
+      } catch {
+        return errorResponse(req, { code: "INVALID_CALLBACK_URL", message: "callback_url must be an absolute URL", status: 400, requestId });
+      }
+      if (!getWebhookSecret()) {
+        return errorResponse(req, {
+          code: "WEBHOOKS_DISABLED",
+          message: "callback_url requires WEBHOOK_SECRET to be configured",
+          status: 400,
+          requestId,
+        });
+      }
+      const checked = await checkRemoteUrl(url);
+      if (!checked.ok) {
+        return errorResponse(req, { code: "INVALID_CALLBACK_URL", message: checked.error.message, status: 400, requestId });
+      }
+    }
+    input.stream = false;
+
+    // The quota is checked when the job is queued; processing only records usage
+    const quotaExceeded = await enforceUsageQuota(req, getUsageScope(authContext), requestId);
+    if (quotaExceeded) return quotaExceeded;
+
+    const job = await createVisionJob(input, ownerId, callbackUrl);
+    return jsonResponse(req, job, 202, { "Location": `/v1/vision/jobs/${job.id}` });
+  } catch (error) {
+    if (error instanceof JobTooLargeError) {
+      return errorResponse(req, { code: "JOB_TOO_LARGE", message: error.message, status: 413, requestId });
+    }
+    logError({ request_id: requestId, route: "/v1/vision/jobs", error: String(error) });
+    return errorResponse(req, {
+      code: "VISION_JOB_CREATE_FAILED",
+      message: error instanceof Error ? error.message : "Failed to create vision job",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+async function handleGetVisionJob(req: Request, id: string, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const job = await getVisionJob(id, ownerId);
+    if (!job) {
+      return errorResponse(req, { code: "NOT_FOUND", message: `Job with id '${id}' not found`, status: 404, requestId });
+    }
+    return jsonResponse(req, job);
+  } catch (error) {
+    logError({ request_id: requestId, route: `/v1/vision/jobs/${id}`, error: String(error) });
+    return errorResponse(req, {
+      code: "VISION_JOB_GET_FAILED",
+      message: error instanceof Error ? error.message : "Failed to get vision job",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+/**
+ * Runs a queued job through the regular vision pipeline by replaying its stored input,
+ * then stores the outcome and notifies the callback URL.
+ */
+async function processVisionJob(id: string): Promise<void> {
+  // Redelivered messages for finished jobs return null and send no second webhook
+  const updated = await runVisionJob(id, (input, job) => {
+    const usageScope: UsageScope = { userId: job.userId ?? "anonymous", quota: null };
+    return runVisionInput(input, "/v1/vision/jobs", id, usageScope);
+  });
+  if (updated?.callbackUrl) await deliverJobWebhook(updated, 1);
+}
+
+/**
+ * Sends the finished job to its callback URL; failed deliveries are re-enqueued with
+ * exponential backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+async function deliverJobWebhook(job: VisionJob, attempt: number): Promise<void> {
+  if (!job.callbackUrl || job.webhook?.delivered) return;
+
+  const { webhook: _webhook, callbackUrl: _callbackUrl, userId: _userId, ...data } = job;
+  const body = JSON.stringify({ event: `vision_job.${job.status}`, job: data });
+  const delivery = await deliverWebhook(job.callbackUrl, body, {
+    "X-Webhook-Id": job.id,
+    "X-Webhook-Attempt": String(attempt),
+  });
+
+  await updateVisionJob(job.id, {
+    webhook: {
+      attempts: attempt,
+      delivered: delivery.ok,
+      lastStatus: delivery.status,
+      lastError: delivery.error,
+      deliveredAt: delivery.ok ? new Date().toISOString() : undefined,
+    },
+  });
+  if (delivery.ok) return;
+
+  const retry = attempt < getWebhookMaxAttempts();
+  logError({ type: "vision_job_webhook", job_id: job.id, attempt, status: delivery.status, error: delivery.error, retry });
+  if (retry) {
+    await enqueueJobMessage({ type: "vision_webhook", id: job.id, attempt: attempt + 1 }, webhookRetryDelayMs(attempt));
+  }
+}
+
+async function handleJobMessage(message: JobQueueMessage): Promise<void> {
+  try {
+    if (message.type === "vision_job") {
+      await processVisionJob(message.id);
+      return;
+    }
+    const job = await getVisionJob(message.id, null);
+    if (job) await deliverJobWebhook(job, message.attempt);
+  } catch (error) {
+    logError({ type: message.type, job_id: message.id, error: String(error) });
+    // Rethrow so KV redelivers the message
+    throw error;
+  }
+}
+
+async function handleCreateSession(req: Request, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(req, { code: "INVALID_JSON", message: "Request body must be valid JSON", status: 400, requestId });
+    }
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return errorResponse(req, { code: "INVALID_JSON", message: "Request body must be a JSON object", status: 400, requestId });
+    }
+
+    const provider = typeof body.provider === "string" ? body.provider : undefined;
+    const requested = provider !== undefined ? getProvider(provider) : undefined;
+    if (provider !== undefined && !requested) {
+      return errorResponse(req, {
+        code: "INVALID_PROVIDER",
+        message: `Unsupported provider '${provider}'`,
+        status: 400,
+        details: { supported: listProviders().map((p) => p.name) },
+        requestId,
+      });
+    }
+    if (body.images !== undefined && (!Array.isArray(body.images) || body.images.some((i) => typeof i !== "string"))) {
+      return errorResponse(req, { code: "INVALID_SESSION", message: "images must be an array of strings", status: 400, requestId });
+    }
+    if (body.detail !== undefined && body.detail !== "low" && body.detail !== "high" && body.detail !== "auto") {
+      return errorResponse(req, { code: "INVALID_SESSION", message: "detail must be 'low', 'high' or 'auto'", status: 400, requestId });
+    }
+    const imageInput: VisionInput = {
+      provider,
+      resize: typeof body.resize === "boolean" ? body.resize : undefined,
+      max_side: body.max_side as number | undefined,
+      image_fetch: body.image_fetch as VisionInput["image_fetch"],
+      strip: body.strip as VisionInput["strip"],
+      images: [
+        ...(typeof body.image_url === "string" && body.image_url ? [body.image_url] : []),
+        ...((body.images as string[] | undefined) ?? []),
+      ],
+    };
+    const imageResult = await prepareInlineImages(imageInput);
+    if (!imageResult.ok) {
+      return errorResponse(req, { ...imageResult.error, requestId });
+    }
+    const images = imageInput.images!;
+    if (requested && !requested.capabilities.multiImage && images.length > 1) {
+      return errorResponse(req, {
+        code: "UNSUPPORTED_INPUT",
+        message: `Provider '${requested.name}' accepts a single image per request`,
+        status: 400,
+        requestId,
+      });
+    }
+
+    const paramsError = validateGenerationParams(body) ?? validateProviderParams(resolveProvider(provider), body);
+    if (paramsError) {
+      return errorResponse(req, { code: "INVALID_GENERATION_PARAMS", message: paramsError, status: 400, requestId });
+    }
+
+    // KV prompts (and their generation params) are resolved once and stored with the session
+    const promptInput: VisionInput = {
+      ...Object.fromEntries(GENERATION_PARAM_KEYS.map((key) => [key, body[key]])),
+      system: typeof body.system === "string" && body.system ? body.system : undefined,
+      prompt_id: typeof body.prompt_id === "string" ? body.prompt_id : undefined,
+      prompt_kv: body.prompt_kv as VisionInput["prompt_kv"],
+    };
+    const promptResult = await resolveVisionPrompt(promptInput, { asSystem: true });
+    if (!promptResult.ok) {
+      return errorResponse(req, { ...promptResult.error, requestId });
+    }
+    const params = Object.fromEntries(
+      GENERATION_PARAM_KEYS.filter((key) => promptInput[key] !== undefined).map((key) => [key, promptInput[key]]),
+    );
+
+    const session = await createSession({
+      provider,
+      model: typeof body.model === "string" && body.model ? body.model : undefined,
+      system: promptInput.system,
+      prompt_id: promptResult.promptMeta?.prompt_id as string | undefined,
+      params: Object.keys(params).length > 0 ? params : undefined,
+      images,
+      detail: body.detail as SessionCreate["detail"],
+    }, ownerId);
+    return jsonResponse(req, session, 201);
+  } catch (error) {
+    if (error instanceof SessionTooLargeError) {
+      return errorResponse(req, { code: "SESSION_TOO_LARGE", message: error.message, status: 413, requestId });
+    }
+    logError({ request_id: requestId, route: "/v1/sessions", error: String(error) });
+    return errorResponse(req, {
+      code: "SESSION_CREATE_FAILED",
+      message: error instanceof Error ? error.message : "Failed to create session",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+async function handleGetSession(req: Request, id: string, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const session = await getSession(id, ownerId);
+    if (!session) {
+      return errorResponse(req, { code: "NOT_FOUND", message: `Session with id '${id}' not found`, status: 404, requestId });
+    }
+    return jsonResponse(req, session);
+  } catch (error) {
+    logError({ request_id: requestId, route: `/v1/sessions/${id}`, error: String(error) });
+    return errorResponse(req, {
+      code: "SESSION_GET_FAILED",
+      message: error instanceof Error ? error.message : "Failed to get session",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+/**
+ * Sends a user message to the vision pipeline with the accumulated session history
+ * and stores both turns. Always responds with the normalized envelope; when the turns
+ * cannot be stored because of concurrent writes, the completion is still returned
+ * with `session_conflict: true`.
+ */
+async function handleSessionMessage(
+  req: Request,
+  id: string,
+  authContext: AuthContext,
+  requestId: string,
+  startTime: number,
+): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const session = await getSession(id, ownerId);
+    if (!session) {
+      return errorResponse(req, { code: "NOT_FOUND", message: `Session with id '${id}' not found`, status: 404, requestId });
+    }
+
+    let body: { prompt?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(req, { code: "INVALID_JSON", message: "Request body must be valid JSON", status: 400, requestId });
+    }
+    const prompt = typeof body?.prompt === "string" ? body.prompt.trim() : "";
+    if (!prompt) {
+      return errorResponse(req, { code: "INVALID_MESSAGES", message: "prompt is required", status: 400, requestId });
+    }
+
+    const input: VisionInput = {
+      provider: session.provider,
+      model: session.model,
+      system: session.system,
+      images: session.images,
+      detail: session.detail,
+      messages: session.messages.map(({ role, content }) => ({ role, content })),
+      prompt,
+      ...session.params,
+    };
+    const usageScope = getUsageScope(authContext);
+    const quotaExceeded = await enforceUsageQuota(req, usageScope, requestId);
+    if (quotaExceeded) return quotaExceeded;
+
+    const { response: upstreamResponse, provider, model, attempts } = await callWithFailover(input, false);
+    const promptMeta = session.prompt_id ? { prompt_id: session.prompt_id } : undefined;
+    const upstreamData = await upstreamResponse.json();
+    await recordRequestUsage(usageScope, { provider, model, images: session.images.length }, upstreamData?.usage, requestId);
+    const completion = normalizeCompletion(upstreamData, { provider, model, requestId, promptMeta });
+
+    // The completion is already paid for, so a lost append must not turn it into an error
+    let turns: number | undefined;
+    try {
+      const updated = await appendSessionMessages(id, ownerId, [
+        { role: "user", content: prompt },
+        { role: "assistant", content: completion.text },
+      ]);
+      if (!updated) {
+        return errorResponse(req, { code: "NOT_FOUND", message: `Session with id '${id}' not found`, status: 404, requestId });
+      }
+      turns = updated.messages.length;
+    } catch (error) {
+      if (!(error instanceof SessionConflictError)) throw error;
+      logWarn({ request_id: requestId, route: `/v1/sessions/${id}/messages`, session_conflict: true });
+    }
+
+    const data = { session_id: id, ...completion, ...(turns === undefined ? { session_conflict: true } : {}) };
+    const response = jsonResponse(req, data, 200, {
+      "X-Vision-Provider": provider,
+      "X-Vision-Model": model,
+      "X-Vision-Attempts": formatAttempts(attempts),
+    });
+    logRequest(req, 200, Date.now() - startTime, {
+      request_id: requestId,
+      session_id: id,
+      turns,
+      provider,
+      model,
+      attempts,
+      fallback_used: attempts.length > 1,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof SessionTooLargeError) {
+      return errorResponse(req, { code: "SESSION_TOO_LARGE", message: error.message, status: 413, requestId });
+    }
+    const attempts = error instanceof FailoverError ? error.attempts : undefined;
+    logError({ request_id: requestId, route: `/v1/sessions/${id}/messages`, error: String(error), attempts });
+    return errorResponse(req, {
+      code: "SESSION_MESSAGE_FAILED",
+      message: error instanceof Error ? error.message : "Failed to process session message",
+      status: 500,
+      details: attempts ? { attempts } : undefined,
+      requestId,
+    });
+  }
+}
+
+/**
+ * 403 for callers that cannot own images, sessions or jobs (see getResourceOwner).
+ */
+function ownerRequiredResponse(req: Request, requestId: string): Response {
+  return errorResponse(req, {
+    code: "OWNER_REQUIRED",
+    message: "This endpoint requires a user token (JWT with 'sub')",
+    status: 403,
+    requestId,
+  });
+}
+
+async function handleListImages(req: Request, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const params = new URL(req.url).searchParams;
+    const result = await listOwnedImages(ownerId, {
+      limit: params.get("limit") ? Math.max(1, Math.min(200, Number(params.get("limit")) || 50)) : undefined,
+      cursor: params.get("cursor") || undefined,
+    });
+    return jsonResponse(req, result);
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/images", error: String(error) });
+    return errorResponse(req, {
+      code: "IMAGE_LIST_FAILED",
+      message: error instanceof Error ? error.message : "Failed to list images",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+async function handleGetImage(req: Request, key: string, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const image = await getOwnedImage(key, ownerId);
+    if (!image) {
+      return errorResponse(req, { code: "NOT_FOUND", message: `Image '${key}' not found`, status: 404, requestId });
+    }
+    return jsonResponse(req, { ...image, ...await getObjectUrl(getObjectStore(), key) });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/images/:key", error: String(error) });
+    return errorResponse(req, {
+      code: "IMAGE_GET_FAILED",
+      message: error instanceof Error ? error.message : "Failed to get image",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+async function handleDeleteImage(req: Request, key: string, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const image = await getOwnedImage(key, ownerId);
+    if (!image) {
+      return errorResponse(req, { code: "NOT_FOUND", message: `Image '${key}' not found`, status: 404, requestId });
+    }
+    // A deduplicated object stays in storage until its last owner deletes it
+    const otherOwners = (await listImageOwners(key)).filter((owner) => owner !== ownerId);
+    if (otherOwners.length === 0) {
+      await getObjectStore().delete(key);
+    }
+    await removeImageOwner(image, otherOwners.length === 0);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/images/:key", error: String(error) });
+    return errorResponse(req, {
+      code: "IMAGE_DELETE_FAILED",
+      message: error instanceof Error ? error.message : "Failed to delete image",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+// Presigned direct uploads
+// Bytes read to sniff a direct upload; JPEG dimensions can follow large EXIF/ICC segments
+const SNIFF_RANGES = [64 * 1024, 512 * 1024];
+
+async function handlePresignUpload(req: Request, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(req, { code: "INVALID_JSON", message: "Request body must be valid JSON", status: 400, requestId });
+    }
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return errorResponse(req, { code: "INVALID_JSON", message: "Request body must be a JSON object", status: 400, requestId });
+    }
+
+    const contentType = typeof body.content_type === "string" ? body.content_type.trim().toLowerCase() : "";
+    const format = imageFormatFromMime(contentType);
+    if (!UPLOAD_MIME_TYPES.has(contentType) || !format) {
+      return errorResponse(req, {
+        code: "UNSUPPORTED_MEDIA_TYPE",
+        message: `Unsupported content_type '${contentType}'. Supported: ${SUPPORTED_IMAGE_FORMATS}`,
+        status: 415,
+        requestId,
+      });
+    }
+    const contentLength = body.content_length;
+    if (typeof contentLength !== "number" || !Number.isInteger(contentLength) || contentLength < 1) {
+      return errorResponse(req, { code: "INVALID_UPLOAD", message: "content_length must be a positive integer", status: 400, requestId });
+    }
+    if (contentLength > MAX_IMAGE_BYTES) {
+      return errorResponse(req, {
+        code: "FILE_TOO_LARGE",
+        message: `Image size must be > 0 and <= ${MAX_IMAGE_BYTES} bytes`,
+        status: 413,
+        requestId,
+      });
+    }
+    const strip = body.strip === undefined ? getDefaultStripMode() : parseStripMode(body.strip);
+    if (!strip) {
+      return errorResponse(req, { code: "INVALID_STRIP_MODE", message: "strip must be 'none', 'gps' or 'all'", status: 400, requestId });
+    }
+
+    const key = createTmpObjectKey(imageExtension(format));
+    const presigned = await getObjectStore().presignPut(key, PRESIGN_UPLOAD_TTL_SEC, { contentType, contentLength });
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + presigned.expiresInSec * 1000).toISOString();
+    await recordPendingUpload({
+      key,
+      ownerId,
+      contentType,
+      contentLength,
+      strip,
+      createdAt: now.toISOString(),
+      expiresAt,
+    });
+
+    return jsonResponse(req, {
+      key,
+      method: "PUT",
+      url: presigned.url,
+      // Signed headers: the PUT must send exactly these values
+      headers: { "Content-Type": contentType, "Content-Length": String(contentLength) },
+      expiresInSec: presigned.expiresInSec,
+      expiresAt,
     }, 201);
   } catch (error) {
+    logError({ request_id: requestId, route: "/v1/images/presign-upload", error: String(error) });
+    return errorResponse(req, {
+      code: "IMAGE_PRESIGN_FAILED",
+      message: error instanceof Error ? error.message : "Failed to presign upload",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+async function handleCompleteUpload(req: Request, key: string, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  try {
+    const pending = await getPendingUpload(key, ownerId);
+    if (!pending) {
+      return errorResponse(req, { code: "NOT_FOUND", message: `Pending upload '${key}' not found`, status: 404, requestId });
+    }
+    const store = getObjectStore();
+    const head = await store.head(key);
+    if (!head) {
+      return errorResponse(req, { code: "UPLOAD_INCOMPLETE", message: "The object has not been uploaded yet", status: 409, requestId });
+    }
+    const size = head.size;
+
+    let bytes: Uint8Array | null = null;
+    let info: ImageInfo | null = null;
+    for (const length of SNIFF_RANGES) {
+      bytes = await store.getRange(key, 0, Math.min(size, length) - 1);
+      info = bytes ? sniffImageInfo(bytes) : null;
+      if (info || !bytes || length >= size) break;
+    }
+
+    // Same checks as the upload route; invalid objects are removed right away
+    let rejection: { code: string; message: string; status: number } | null = null;
+    if (!bytes || !info) {
+      rejection = { code: "INVALID_IMAGE", message: `Invalid or unsupported image data. Supported: ${SUPPORTED_IMAGE_FORMATS}`, status: 400 };
+    } else if (info.format !== imageFormatFromMime(pending.contentType)) {
+      rejection = {
+        code: "UNSUPPORTED_MEDIA_TYPE",
+        message: `Uploaded ${info.format} data does not match the declared type '${pending.contentType}'`,
+        status: 415,
+      };
+    } else if (size > MAX_IMAGE_BYTES) {
+      rejection = { code: "FILE_TOO_LARGE", message: `Image size must be > 0 and <= ${MAX_IMAGE_BYTES} bytes`, status: 413 };
+    } else if (info.width > MAX_IMAGE_PX || info.height > MAX_IMAGE_PX) {
+      rejection = { code: "IMAGE_TOO_LARGE", message: `Image dimensions must be <= ${MAX_IMAGE_PX}x${MAX_IMAGE_PX}`, status: 413 };
+    }
+    if (rejection || !bytes || !info) {
+      await store.delete(key);
+      await deletePendingUpload(key);
+      return errorResponse(req, { ...rejection!, requestId });
+    }
+
+    const exif = readJpegExif(bytes);
+    const transposed = isTransposedOrientation(exif?.orientation);
+    const width = transposed ? info.height : info.width;
+    const height = transposed ? info.width : info.height;
+    const contentType = head.contentType ?? pending.contentType;
+
+    // The client wrote the object directly, so the strip policy is applied by rewriting it
+    const strip = pending.strip ?? getDefaultStripMode();
+    const stripped = info.format === "jpeg" && strip !== "none" ? strip : null;
+    let stored = { size, etag: head.etag };
+    if (stripped) {
+      const original = size <= bytes.length ? bytes : await store.getRange(key, 0, size - 1);
+      if (!original) {
+        return errorResponse(req, { code: "UPLOAD_INCOMPLETE", message: "The object has not been uploaded yet", status: 409, requestId });
+      }
+      const cleaned = stripJpegMetadata(original, strip);
+      const put = await store.put(key, cleaned, contentType);
+      stored = { size: cleaned.length, etag: put.etag };
+    }
+
+    await recordImageOwner({
+      key,
+      ownerId,
+      contentType,
+      format: info.format,
+      size: stored.size,
+      width,
+      height,
+      createdAt: new Date().toISOString(),
+    });
+    await deletePendingUpload(key);
+
+    return jsonResponse(req, {
+      key,
+      ...await getObjectUrl(store, key),
+      etag: stored.etag,
+      contentType,
+      format: info.format,
+      size: stored.size,
+      width,
+      height,
+      original: { width, height, size },
+      resized: false,
+      exif,
+      stripped,
+    });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/images/:key/complete", error: String(error) });
+    return errorResponse(req, {
+      code: "IMAGE_COMPLETE_FAILED",
+      message: error instanceof Error ? error.message : "Failed to complete upload",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+/**
+ * Target of presigned URLs issued by the fs and memory object stores (OBJECT_STORE=fs|memory).
+ * The signature in the query string replaces authentication, as with S3 presigned URLs.
+ */
+async function handleLocalObject(req: Request, key: string, requestId: string): Promise<Response> {
+  try {
+    const store = getObjectStore();
+    if (store.name !== "fs" && store.name !== "memory") {
+      return errorResponse(req, { code: "NOT_FOUND", message: "Not found", status: 404, requestId });
+    }
+    const check = await verifyLocalObjectUrl(req.method, key, new URL(req.url).searchParams);
+    if (!check.ok) {
+      return errorResponse(req, { code: "FORBIDDEN", message: check.message, status: 403, requestId });
+    }
+
+    if (req.method === "GET") {
+      const head = await store.head(key);
+      const body = head ? await store.getRange(key, 0, head.size - 1) : null;
+      if (!head || !body) {
+        return errorResponse(req, { code: "NOT_FOUND", message: `Object '${key}' not found`, status: 404, requestId });
+      }
+      return new Response(body as unknown as BodyInit, {
+        headers: {
+          ...getCorsHeaders(req),
+          "Content-Type": head.contentType ?? "application/octet-stream",
+          ...(head.etag ? { "ETag": head.etag } : {}),
+        },
+      });
+    }
+
+    // Signed PUT constraints, checked like S3 checks signed headers
+    const contentType = req.headers.get("content-type");
+    const declaredLength = Number(req.headers.get("content-length"));
+    if (contentType !== check.contentType || declaredLength !== check.contentLength) {
+      return errorResponse(req, {
+        code: "FORBIDDEN",
+        message: "Content-Type and Content-Length must match the presigned values",
+        status: 403,
+        requestId,
+      });
+    }
+    const body = new Uint8Array(await req.arrayBuffer());
+    if (body.length !== check.contentLength) {
+      return errorResponse(req, { code: "FORBIDDEN", message: "Body length does not match Content-Length", status: 403, requestId });
+    }
+    const { etag } = await store.put(key, body, contentType);
+    return new Response(null, { status: 200, headers: { ...getCorsHeaders(req), ...(etag ? { "ETag": etag } : {}) } });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/local-objects", error: String(error) });
+    return errorResponse(req, { code: "LOCAL_OBJECT_FAILED", message: "Local object request failed", status: 500, requestId });
+  }
+}
+
+/**
+ * Store an image under its content hash, reusing the existing object when the same
+ * bytes were uploaded before (KV hash index, confirmed with a HEAD request).
+ */
+async function storeDeduplicatedImage(
+  body: Uint8Array,
+  ext: string,
+  contentType: string,
+): Promise<{ key: string; etag?: string; sha256?: string; deduplicated: boolean }> {
+  const store = getObjectStore();
+  const sha256 = await sha256Hex(body);
+  const recorded = await getImageByHash(sha256);
+  // The recorded object may have been deleted since; fall back to the content key
+  for (const key of new Set([recorded?.key, createContentObjectKey(sha256, ext)])) {
+    if (!key) continue;
+    const existing = await store.head(key);
+    if (!existing) continue;
+    if (recorded?.key !== key) {
+      await recordImageHash({ sha256, key, contentType, size: body.length, createdAt: new Date().toISOString() });
+    }
+    return { key, etag: existing.etag, sha256, deduplicated: true };
+  }
+
+  const key = createContentObjectKey(sha256, ext);
+  const putResult = await store.put(key, body, contentType);
+  await recordImageHash({ sha256, key, contentType, size: body.length, createdAt: new Date().toISOString() });
+  return { ...putResult, sha256, deduplicated: false };
+}
+
+const STREAM_UPLOAD_DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+// JPEG headers read ahead of the image data so metadata can be stripped from a streamed upload
+const STREAM_STRIP_MAX_HEAD_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Size limit for raw (streamed) uploads (IMAGE_STREAM_MAX_BYTES).
+ */
+function getStreamUploadMaxBytes(): number {
+  const value = Number(Deno.env.get("IMAGE_STREAM_MAX_BYTES"));
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : STREAM_UPLOAD_DEFAULT_MAX_BYTES;
+}
+
+/**
+ * Read the start of a body until the image header can be sniffed (SNIFF_RANGES) or the body ends.
+ */
+async function readImageHead(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): Promise<{ head: Uint8Array; info: ImageInfo | null }> {
+  let head: Uint8Array = new Uint8Array();
+  let done = false;
+  for (const length of SNIFF_RANGES) {
+    while (!done && head.length < length) {
+      const chunk = await reader.read();
+      if (chunk.done) done = true;
+      else head = concatBytes(head, chunk.value);
+    }
+    const info = sniffImageInfo(head);
+    if (info || done) return { head, info };
+  }
+  return { head, info: null };
+}
+
+/**
+ * Extend a JPEG head until it holds every metadata segment (see jpegImageDataOffset).
+ * Returns null when the headers exceed STREAM_STRIP_MAX_HEAD_BYTES or the body ends first.
+ */
+async function readJpegHeaders(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  head: Uint8Array,
+): Promise<Uint8Array | null> {
+  while (jpegImageDataOffset(head) === null) {
+    if (head.length >= STREAM_STRIP_MAX_HEAD_BYTES) return null;
+    const chunk = await reader.read();
+    if (chunk.done) return null;
+    head = concatBytes(head, chunk.value);
+  }
+  return head;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+/**
+ * Raw image or PDF body (`Content-Type: image/...` or `application/pdf`) streamed to storage
+ * without holding it in memory. The format and dimensions are checked on the first bytes before
+ * anything is stored, and JPEG metadata is stripped from the headers (`?strip=`, default
+ * IMAGE_STRIP_METADATA). Meant for large scans: the size limit is IMAGE_STREAM_MAX_BYTES instead
+ * of the provider limit, and nothing is resized.
+ */
+async function handleStreamUpload(
+  req: Request,
+  contentType: string,
+  ownerId: string,
+  requestId: string,
+): Promise<Response> {
+  const maxBytes = getStreamUploadMaxBytes();
+  const tooLarge = { code: "FILE_TOO_LARGE", message: `Streamed uploads must be <= ${maxBytes} bytes`, status: 413, requestId };
+  if (Number(req.headers.get("content-length")) > maxBytes) {
+    return errorResponse(req, tooLarge);
+  }
+  if (!req.body) {
+    return errorResponse(req, { code: "MISSING_FILE", message: "Request body is required", status: 400, requestId });
+  }
+  const stripParam = new URL(req.url).searchParams.get("strip");
+  const stripMode = stripParam === null ? getDefaultStripMode() : parseStripMode(stripParam);
+  if (!stripMode) {
+    return errorResponse(req, { code: "INVALID_STRIP_MODE", message: "strip must be 'none', 'gps' or 'all'", status: 400, requestId });
+  }
+
+  try {
+    const reader = req.body.getReader();
+    const sniffed = await readImageHead(reader);
+    let head = sniffed.head;
+    const info = sniffed.info;
+    const pdf = contentType === PDF_MIME_TYPE;
+    let rejection: { code: string; message: string; status: number } | null = null;
+    if (pdf ? !isPdfData(head) : !info) {
+      rejection = {
+        code: "INVALID_IMAGE",
+        message: pdf ? "Invalid PDF data" : `Invalid or unsupported image data. Supported: ${SUPPORTED_IMAGE_FORMATS}`,
+        status: 400,
+      };
+    } else if (info && info.format !== imageFormatFromMime(contentType)) {
+      rejection = {
+        code: "UNSUPPORTED_MEDIA_TYPE",
+        message: `Uploaded ${info.format} data does not match the declared type '${contentType}'`,
+        status: 415,
+      };
+    } else if (info && (info.width > MAX_IMAGE_PX || info.height > MAX_IMAGE_PX)) {
+      rejection = { code: "IMAGE_TOO_LARGE", message: `Image dimensions must be <= ${MAX_IMAGE_PX}x${MAX_IMAGE_PX}`, status: 413 };
+    }
+
+    // EXIF is read before stripping; only the headers ahead of the image data are rewritten
+    const exif = readJpegExif(head);
+    const stripped = info?.format === "jpeg" && stripMode !== "none" ? stripMode : null;
+    if (!rejection && stripped) {
+      const headers = await readJpegHeaders(reader, head);
+      if (headers) {
+        head = stripJpegMetadata(headers, stripped);
+      } else {
+        rejection = {
+          code: "INVALID_IMAGE",
+          message: `JPEG metadata must end within the first ${STREAM_STRIP_MAX_HEAD_BYTES} bytes to be stripped`,
+          status: 400,
+        };
+      }
+    }
+    if (rejection) {
+      await reader.cancel().catch(() => {});
+      return errorResponse(req, { ...rejection, requestId });
+    }
+
+    // The sniffed head goes first, then the rest of the request body as it arrives
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(head);
+      },
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    const store = getObjectStore();
+    const mime = info ? imageMimeType(info.format) : PDF_MIME_TYPE;
+    const format = info ? info.format : "pdf";
+    const ext = info ? imageExtension(info.format) : "pdf";
+    const stored = await store.putStream(createTmpObjectKey(ext), body, mime, { maxBytes });
+
+    // Documents have no pixel dimensions
+    const transposed = isTransposedOrientation(exif?.orientation);
+    const width = info ? (transposed ? info.height : info.width) : undefined;
+    const height = info ? (transposed ? info.width : info.height) : undefined;
+    await recordImageOwner({
+      key: stored.key,
+      ownerId,
+      contentType: mime,
+      format,
+      size: stored.size,
+      width,
+      height,
+      createdAt: new Date().toISOString(),
+    });
+
+    return jsonResponse(req, {
+      key: stored.key,
+      ...await getObjectUrl(store, stored.key),
+      etag: stored.etag,
+      contentType: mime,
+      format,
+      size: stored.size,
+      width,
+      height,
+      original: { width, height, size: stored.size },
+      resized: false,
+      exif,
+      stripped,
+    }, 201);
+  } catch (error) {
+    if (error instanceof ObjectTooLargeError) {
+      return errorResponse(req, tooLarge);
+    }
     logError({ request_id: requestId, route: "/v1/images/upload", error: String(error) });
     return errorResponse(req, {
       code: "IMAGE_UPLOAD_FAILED",
@@ -513,6 +1988,230 @@ async function handleUploadImage(req: Request, requestId: string): Promise<Respo
   }
 }
 
+async function handleUploadImage(req: Request, authContext: AuthContext, requestId: string): Promise<Response> {
+  const ownerId = getResourceOwner(authContext);
+  if (!ownerId) return ownerRequiredResponse(req, requestId);
+  const contentType = req.headers.get("content-type") || "";
+  const ct = contentType.toLowerCase();
+  // A raw image body is streamed to storage instead of being parsed as a form
+  const rawType = ct.split(";")[0].trim();
+  if (UPLOAD_MIME_TYPES.has(rawType) || rawType === PDF_MIME_TYPE) {
+    return await handleStreamUpload(req, rawType, ownerId, requestId);
+  }
+  if (!ct.startsWith("multipart/form-data")) {
+    return errorResponse(req, {
+      code: "INVALID_CONTENT_TYPE",
+      message: "Expected multipart/form-data, a raw image or a PDF body",
+      status: 400,
+      details: { contentType },
+      requestId,
+    });
+  }
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return errorResponse(req, {
+        code: "MISSING_FILE",
+        message: "Form field 'file' is required",
+        status: 400,
+        requestId,
+      });
+    }
+
+    if (!UPLOAD_MIME_TYPES.has(file.type)) {
+      return errorResponse(req, {
+        code: "UNSUPPORTED_MEDIA_TYPE",
+        message: `Unsupported file type '${file.type}'. Supported: ${SUPPORTED_IMAGE_FORMATS}`,
+        status: 415,
+        requestId,
+      });
+    }
+
+    const stripField = formData.get("strip");
+    const stripMode = stripField === null ? getDefaultStripMode() : parseStripMode(stripField);
+    if (!stripMode) {
+      return errorResponse(req, {
+        code: "INVALID_STRIP_MODE",
+        message: "strip must be 'none', 'gps' or 'all'",
+        status: 400,
+        requestId,
+      });
+    }
+
+    const resizeField = formData.get("resize");
+    const maxSideField = formData.get("max_side");
+    const maxSide = typeof maxSideField === "string" && maxSideField.trim() ? Number(maxSideField) : undefined;
+    if (maxSide !== undefined && (!Number.isInteger(maxSide) || maxSide < 1)) {
+      return errorResponse(req, {
+        code: "INVALID_IMAGE_OPTIONS",
+        message: "max_side must be a positive integer",
+        status: 400,
+        requestId,
+      });
+    }
+    const resize = typeof resizeField === "string"
+      ? resizeField.toLowerCase() !== "false" && resizeField !== "0"
+      : maxSide !== undefined || isResizeEnabledByDefault();
+    const dedupField = formData.get("dedup");
+    const dedup = typeof dedupField === "string"
+      ? dedupField.toLowerCase() !== "false" && dedupField !== "0"
+      : isImageDedupEnabledByDefault();
+
+    // Reject by the declared size before the file is copied into memory
+    const maxBytes = resize ? MAX_RESIZE_INPUT_BYTES : MAX_IMAGE_BYTES;
+    if (file.size <= 0 || file.size > maxBytes) {
+      return errorResponse(req, {
+        code: "FILE_TOO_LARGE",
+        message: `Image size must be > 0 and <= ${maxBytes} bytes`,
+        status: 413,
+        requestId,
+      });
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const prepared = await prepareImage(bytes, { resize, maxSide });
+    if (!prepared.ok) {
+      return errorResponse(req, { ...prepared.error, requestId });
+    }
+    const { info, mime, original } = prepared;
+
+    // EXIF is read from the original; dimensions are reported as displayed (after orientation)
+    const exif = readJpegExif(bytes);
+    const transposed = isTransposedOrientation(exif?.orientation);
+    const body = info.format === "jpeg" ? stripJpegMetadata(prepared.bytes, stripMode) : prepared.bytes;
+
+    // Stored with the sniffed type, which may differ from the declared one (e.g. image/heif)
+    const putResult = dedup
+      ? await storeDeduplicatedImage(body, imageExtension(info.format), mime)
+      : { ...await getObjectStore().put(createTmpObjectKey(imageExtension(info.format)), body, mime), deduplicated: false };
+    const key = putResult.key;
+    const imageMeta = {
+      contentType: mime,
+      format: info.format,
+      size: body.length,
+      width: transposed ? info.height : info.width,
+      height: transposed ? info.width : info.height,
+      original: {
+        width: transposed ? original.height : original.width,
+        height: transposed ? original.width : original.height,
+        size: original.size,
+      },
+      resized: prepared.resized,
+      exif,
+      stripped: info.format === "jpeg" && stripMode !== "none" ? stripMode : null,
+      ...(dedup ? { sha256: putResult.sha256, deduplicated: putResult.deduplicated } : {}),
+    };
+    // Nothing is created when an identical image already exists
+    const status = putResult.deduplicated ? 200 : 201;
+
+    await recordImageOwner({
+      key,
+      ownerId,
+      contentType: mime,
+      format: info.format,
+      size: body.length,
+      width: imageMeta.width,
+      height: imageMeta.height,
+      sha256: putResult.sha256,
+      createdAt: new Date().toISOString(),
+    });
+
+    return jsonResponse(req, {
+      key,
+      ...await getObjectUrl(getObjectStore(), key),
+      etag: putResult.etag,
+      ...imageMeta,
+    }, status);
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/images/upload", error: String(error) });
+    return errorResponse(req, {
+      code: "IMAGE_UPLOAD_FAILED",
+      message: error instanceof Error ? error.message : "Failed to upload image",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+async function handleGetUsage(req: Request, authContext: AuthContext, requestId: string): Promise<Response> {
+  try {
+    const params = new URL(req.url).searchParams;
+    const range = parseUsageRange(params.get("from"), params.get("to"));
+    if (!range.ok) {
+      return errorResponse(req, { code: "INVALID_USAGE_RANGE", message: range.message, status: 400, requestId });
+    }
+    const scope = getUsageScope(authContext);
+    const entries = await listUsage(range.from, range.to, scope.userId);
+    const used = await getMonthlyTokens(scope.userId);
+    return jsonResponse(req, {
+      userId: scope.userId,
+      from: range.from,
+      to: range.to,
+      totals: sumUsage(entries),
+      quota: scope.quota === null ? null : {
+        limit: scope.quota,
+        used,
+        remaining: Math.max(0, scope.quota - used),
+        resetAt: nextMonthStart(new Date()).toISOString(),
+      },
+      entries,
+    });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/v1/usage", error: String(error) });
+    return errorResponse(req, {
+      code: "USAGE_GET_FAILED",
+      message: error instanceof Error ? error.message : "Failed to get usage",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+/**
+ * Usage of all users (or `user_id`) for a date range as JSON with per-user totals,
+ * or as CSV (`format=csv` or `Accept: text/csv`) for billing exports.
+ */
+async function handleAdminUsage(req: Request, requestId: string): Promise<Response> {
+  // Auth already checked by middleware
+  try {
+    const params = new URL(req.url).searchParams;
+    const range = parseUsageRange(params.get("from"), params.get("to"));
+    if (!range.ok) {
+      return errorResponse(req, { code: "INVALID_USAGE_RANGE", message: range.message, status: 400, requestId });
+    }
+    const format = params.get("format") ?? ((req.headers.get("Accept") ?? "").includes("text/csv") ? "csv" : "json");
+    if (format !== "json" && format !== "csv") {
+      return errorResponse(req, { code: "INVALID_USAGE_FORMAT", message: "format must be 'json' or 'csv'", status: 400, requestId });
+    }
+    const entries = await listUsage(range.from, range.to, params.get("user_id") || undefined);
+
+    if (format === "csv") {
+      return new Response(usageToCsv(entries), {
+        headers: {
+          ...getCorsHeaders(req),
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="usage-${range.from}-${range.to}.csv"`,
+        },
+      });
+    }
+    const users: Record<string, UsageTotals> = {};
+    for (const entry of entries) {
+      addUsageTotals(users[entry.userId] ??= emptyUsageTotals(), entry);
+    }
+    return jsonResponse(req, { from: range.from, to: range.to, totals: sumUsage(entries), users, entries });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/admin/usage", error: String(error) });
+    return errorResponse(req, {
+      code: "USAGE_EXPORT_FAILED",
+      message: error instanceof Error ? error.message : "Failed to export usage",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
 async function handleGetDefaultPrompt(req: Request, requestId: string): Promise<Response> {
   try {
     const url = new URL(req.url);
@@ -588,5 +2287,49 @@ async function handleSyncDefaults(req: Request, requestId: string): Promise<Resp
   }
 }
 
+async function handleImageCleanup(req: Request, requestId: string): Promise<Response> {
+  // Auth already checked by middleware
+  try {
+    const params = new URL(req.url).searchParams;
+    const dryRunParam = params.get("dry_run");
+    const dryRun = dryRunParam !== null && dryRunParam !== "0" && dryRunParam.toLowerCase() !== "false";
+    const ttlParam = params.get("ttl_sec");
+    const ttlSec = ttlParam !== null ? Number(ttlParam) : undefined;
+    if (ttlSec !== undefined && (!Number.isInteger(ttlSec) || ttlSec < MIN_TMP_TTL_SEC)) {
+      return errorResponse(req, {
+        code: "INVALID_CLEANUP_OPTIONS",
+        message: `ttl_sec must be an integer >= ${MIN_TMP_TTL_SEC}`,
+        status: 400,
+        requestId,
+      });
+    }
+    const report = await cleanupTmpImages({ dryRun, ttlSec });
+    return jsonResponse(req, { ok: true, ...report });
+  } catch (error) {
+    logError({ request_id: requestId, route: "/admin/images/cleanup", error: String(error) });
+    return errorResponse(req, {
+      code: "IMAGE_CLEANUP_FAILED",
+      message: error instanceof Error ? error.message : "Failed to clean up images",
+      status: 500,
+      requestId,
+    });
+  }
+}
+
+// Scheduled retention of tmp/ uploads (Deno.cron needs --unstable-cron locally; built in on Deploy)
+const imageCleanupSchedule = Deno.env.get("IMAGE_CLEANUP_CRON")?.trim();
+if (imageCleanupSchedule && typeof Deno.cron === "function") {
+  Deno.cron("image-tmp-cleanup", imageCleanupSchedule, async () => {
+    try {
+      await cleanupTmpImages();
+    } catch (error) {
+      logError({ type: "image_cleanup", error: String(error) });
+    }
+  });
+}
+
+// Background processing of vision jobs and webhook retries
+listenJobQueue(handleJobMessage).catch((error) => logError({ type: "vision_job_queue", error: String(error) }));
+
 // Start server
 Deno.serve(handler);